@@ -1,10 +1,122 @@
+import * as fs from "fs";
+import * as path from "path";
 import type { NextConfig } from "next";
+import { PHASE_PRODUCTION_BUILD } from "next/constants";
+import { parseImagesYaml } from "./src/lib/schema";
 
-const nextConfig: NextConfig = {
-  // Enable static image optimization on Vercel
-  images: {
-    formats: ["image/avif", "image/webp"],
-  },
-};
+/**
+ * `STATIC_EXPORT=1 next build` (`pnpm build:static`) writes a site to out/
+ * that any static host or S3-style bucket can serve: no optimizer, no
+ * route handlers, one directory per page.
+ */
+const staticExport = process.env.STATIC_EXPORT === "1";
 
-export default nextConfig;
+/**
+ * Intercepting routes (the slideshow as a modal over the grid) cannot be
+ * exported. Next implements them as rewrites keyed on the `Next-Url`
+ * header of client navigations, which a static host has no way to apply,
+ * so `output: "export"` fails (E626) as soon as one exists, whatever its
+ * generateStaticParams. Their pages use this extension and only the server
+ * build picks them up; the export opens images as standalone pages, which
+ * checkInterceptingRoutes makes sure exist.
+ */
+const INTERCEPTING_PAGE_EXTENSION = "intercept.tsx";
+
+const APP_DIR = path.join(process.cwd(), "src/app");
+
+/** `(.)`, `(..)`, `(..)(..)` or `(...)` at the start of a segment */
+const INTERCEPTION_MARKER = /^\((\.{1,3})\)(\(\.\.\))?/;
+
+/**
+ * URL segments of an app directory path: route groups and slots don't
+ * appear in the URL
+ */
+function toRouteSegments(dir: string): string[] {
+  return dir
+    .split(path.sep)
+    .filter(
+      (segment) =>
+        segment !== "" && segment !== "." && !segment.startsWith("@") && !/^\(.*\)$/.test(segment)
+    );
+}
+
+/**
+ * Fail the build when the server and export route trees drift apart: an
+ * intercepting page without the extension breaks the export, one with it
+ * outside an interception segment vanishes from it, and one whose target
+ * has no standalone page leaves the export without that route.
+ */
+function checkInterceptingRoutes(): void {
+  const pages = fs
+    .readdirSync(APP_DIR, { recursive: true, encoding: "utf-8" })
+    .filter((file) => /^page\./.test(path.basename(file)));
+  const standaloneRoutes = new Set(
+    pages
+      .filter((file) => !file.endsWith(`.${INTERCEPTING_PAGE_EXTENSION}`))
+      .map((file) => toRouteSegments(path.dirname(file)).join("/"))
+  );
+
+  const problems: string[] = [];
+  for (const file of pages) {
+    const segments = path.dirname(file).split(path.sep);
+    const markerIndex = segments.findIndex((segment) => INTERCEPTION_MARKER.test(segment));
+    const usesExtension = file.endsWith(`.${INTERCEPTING_PAGE_EXTENSION}`);
+
+    if (markerIndex === -1) {
+      if (usesExtension) problems.push(`${file} is not in an intercepting route`);
+      continue;
+    }
+    if (!usesExtension) {
+      problems.push(`${file} intercepts a route, name it page.${INTERCEPTING_PAGE_EXTENSION}`);
+      continue;
+    }
+
+    // Resolve the intercepted route like Next does: from the level of the
+    // segment holding the marker, up as many levels as it says
+    const [marker, dots, twoLevels] = segments[markerIndex].match(INTERCEPTION_MARKER)!;
+    const base = toRouteSegments(segments.slice(0, markerIndex).join(path.sep));
+    const parent =
+      dots === "..." ? [] : base.slice(0, base.length - (dots.length - 1) - (twoLevels ? 1 : 0));
+    const target = [
+      ...parent,
+      segments[markerIndex].slice(marker.length),
+      ...toRouteSegments(segments.slice(markerIndex + 1).join(path.sep)),
+    ].join("/");
+    if (!standaloneRoutes.has(target)) {
+      problems.push(`${file} intercepts /${target}, which has no standalone page`);
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Intercepting routes out of sync:\n${problems.map((p) => `  - ${p}`).join("\n")}`);
+  }
+}
+
+const nextConfig: NextConfig = staticExport
+  ? {
+      output: "export",
+      trailingSlash: true,
+      images: {
+        loader: "custom",
+        loaderFile: "./src/lib/image-loader.ts",
+      },
+    }
+  : {
+      pageExtensions: [INTERCEPTING_PAGE_EXTENSION, "tsx", "ts", "jsx", "js"],
+      // Enable static image optimization on Vercel
+      images: {
+        formats: ["image/avif", "image/webp"],
+      },
+    };
+
+export default function config(phase: string): NextConfig {
+  if (phase === PHASE_PRODUCTION_BUILD) {
+    // Fail the build before compiling anything if images.yaml is invalid
+    const manifestPath = path.join(process.cwd(), "src/data/images.yaml");
+    if (fs.existsSync(manifestPath)) {
+      parseImagesYaml(fs.readFileSync(manifestPath, "utf-8"), "src/data/images.yaml");
+    }
+    checkInterceptingRoutes();
+  }
+  return nextConfig;
+}
@@ -0,0 +1,118 @@
+#!/usr/bin/env tsx
+import * as fs from "fs";
+import * as path from "path";
+import { parseArgs } from "util";
+import { geocodeLocation, loadGeocoder } from "./lib/geocode";
+import { resolveCaptureMetadata } from "./lib/image-metadata";
+import { DEFAULT_INFERENCE_WINDOW_MINUTES, getManifestShots } from "./lib/location-inference";
+import { loadImagesYaml, saveImagesYaml, type ImageEntry } from "./lib/manifest";
+import { loadOverrides } from "./lib/overrides";
+import { ORIGINALS_DIR } from "./lib/paths";
+import { applyLocationPrivacy, resolvePrivacyPolicy } from "./lib/privacy";
+
+type OverriddenField =
+  | "taken_at"
+  | "taken_at_source"
+  | "location"
+  | "location_source"
+  | "location_privacy"
+  | "place"
+  | "timezone"
+  | "description";
+
+/**
+ * Apply src/data/overrides.yaml to images that were already imported.
+ *
+ * Each listed entry is resolved again from its original, sidecars and
+ * override, exactly as the importer would: removing a date, location or
+ * timezone from an override falls back to the EXIF value on the next run.
+ * Descriptions are kept, since they may have been edited in images.yaml.
+ */
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      "dry-run": { type: "boolean", default: false },
+    },
+  });
+
+  const privacy = resolvePrivacyPolicy();
+  const overrides = loadOverrides();
+  const geocoder = loadGeocoder();
+  const data = await loadImagesYaml();
+
+  console.log(`Found ${data.images.length} images, ${Object.keys(overrides).length} override(s)\n`);
+
+  let changed = 0;
+  let failed = 0;
+
+  for (const [originalPath, override] of Object.entries(overrides)) {
+    const img = data.images.find((entry) => entry.original_path === originalPath);
+    if (!img) {
+      console.warn(`  ⚠ ${originalPath} is not imported yet, the importer will apply it`);
+      continue;
+    }
+
+    const filePath = path.join(ORIGINALS_DIR, img.original_path);
+    if (!fs.existsSync(filePath)) {
+      console.error(`  ❌ id ${img.id}: original ${img.original_path} is missing`);
+      failed++;
+      continue;
+    }
+
+    let updated: Pick<ImageEntry, OverriddenField>;
+    try {
+      const capture = await resolveCaptureMetadata(filePath, {
+        override,
+        // Still no GPS: infer again, from the other entries this time
+        inference:
+          img.location_source === "inferred"
+            ? {
+                references: getManifestShots(data.images),
+                windowMinutes: DEFAULT_INFERENCE_WINDOW_MINUTES,
+              }
+            : undefined,
+      });
+      const published = applyLocationPrivacy(capture.location, privacy);
+      updated = {
+        taken_at: capture.takenAt.toISOString(),
+        taken_at_source: capture.takenAtSource,
+        location: published.location,
+        location_source: capture.locationSource,
+        location_privacy: published.privacy,
+        place: geocodeLocation(geocoder, published.location),
+        timezone: capture.timezone,
+        description: capture.description ?? img.description,
+      };
+    } catch (error) {
+      console.error(`  ❌ id ${img.id}: ${error}`);
+      failed++;
+      continue;
+    }
+
+    const fields = (Object.keys(updated) as OverriddenField[]).filter(
+      (field) => JSON.stringify(img[field]) !== JSON.stringify(updated[field])
+    );
+    if (fields.length === 0) continue;
+
+    console.log(`  ✏️ id ${img.id} (${img.original_path}): ${fields.join(", ")}`);
+    Object.assign(img, updated);
+    changed++;
+  }
+
+  if (!values["dry-run"] && changed > 0) {
+    saveImagesYaml(data);
+  }
+
+  console.log();
+  console.log("═".repeat(50));
+  console.log(`✓ ${values["dry-run"] ? "Would change" : "Changed"}: ${changed}`);
+  if (failed > 0) {
+    console.warn(`⚠ Failed: ${failed}`);
+    process.exit(1);
+  }
+}
+
+main().catch((error) => {
+  console.error("Fatal error:", error);
+  process.exit(1);
+});
@@ -0,0 +1,106 @@
+#!/usr/bin/env tsx
+import * as fs from "fs";
+import * as path from "path";
+import { parseArgs } from "util";
+import { geocodeLocation, loadGeocoder } from "./lib/geocode";
+import { resolveCaptureMetadata } from "./lib/image-metadata";
+import { loadImagesYaml, saveImagesYaml, type ImageLocation } from "./lib/manifest";
+import { loadOverrides } from "./lib/overrides";
+import { ORIGINALS_DIR } from "./lib/paths";
+import {
+  applyLocationPrivacy,
+  resolvePrivacyPolicy,
+  type PublishedLocation,
+} from "./lib/privacy";
+
+function formatLocation(location: ImageLocation | null): string {
+  return location ? `${location.lat}, ${location.lng}` : "hidden";
+}
+
+/**
+ * Re-apply the location privacy policy (LOCATION_FUZZ_METERS, PRIVATE_ZONES)
+ * to every entry, starting from the GPS fix in the original (or its sidecars
+ * or override).
+ *
+ * Run after changing the policy: the manifest only holds published
+ * coordinates, so the originals are the only source of the real ones.
+ */
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      "dry-run": { type: "boolean", default: false },
+    },
+  });
+
+  const privacy = resolvePrivacyPolicy();
+  const overrides = loadOverrides();
+  const geocoder = loadGeocoder();
+  const data = await loadImagesYaml();
+
+  console.log(`Found ${data.images.length} images`);
+  console.log(`Location fuzz: ${privacy.fuzzMeters} m, ${privacy.zones.length} private zone(s)\n`);
+
+  let changed = 0;
+  let failed = 0;
+
+  for (const img of data.images) {
+    let published: PublishedLocation;
+    if (img.location_source === "inferred") {
+      // Inferred locations were never in the original: start from the
+      // published estimate, which stays hidden once hidden
+      if (!img.location) continue;
+      published = applyLocationPrivacy(img.location, privacy);
+    } else {
+      const originalPath = path.join(ORIGINALS_DIR, img.original_path);
+      if (!fs.existsSync(originalPath)) {
+        console.error(`  ❌ id ${img.id}: original ${img.original_path} is missing`);
+        failed++;
+        continue;
+      }
+
+      try {
+        const capture = await resolveCaptureMetadata(originalPath, {
+          override: overrides[img.original_path],
+        });
+        published = applyLocationPrivacy(capture.location, privacy);
+      } catch (error) {
+        console.error(`  ❌ id ${img.id}: ${error}`);
+        failed++;
+        continue;
+      }
+    }
+
+    if (
+      published.privacy === img.location_privacy &&
+      published.location?.lat === img.location?.lat &&
+      published.location?.lng === img.location?.lng
+    ) {
+      continue;
+    }
+
+    console.log(
+      `  🔒 id ${img.id}: ${img.location_privacy} (${formatLocation(img.location)}) → ${published.privacy} (${formatLocation(published.location)})`
+    );
+    img.location = published.location;
+    img.location_privacy = published.privacy;
+    img.place = geocodeLocation(geocoder, published.location);
+    changed++;
+  }
+
+  if (!values["dry-run"] && changed > 0) {
+    saveImagesYaml(data);
+  }
+
+  console.log();
+  console.log("═".repeat(50));
+  console.log(`✓ ${values["dry-run"] ? "Would change" : "Changed"}: ${changed}`);
+  if (failed > 0) {
+    console.warn(`⚠ Failed: ${failed}`);
+    process.exit(1);
+  }
+}
+
+main().catch((error) => {
+  console.error("Fatal error:", error);
+  process.exit(1);
+});
@@ -0,0 +1,89 @@
+#!/usr/bin/env tsx
+import * as fs from "fs";
+import * as path from "path";
+import { parseArgs } from "util";
+import { extractAdMetadata, isAdMetadataStale } from "./lib/ad-metadata";
+import { loadImagesYaml, saveImagesYaml } from "./lib/manifest";
+import { PUBLIC_IMAGES_DIR } from "./lib/paths";
+import {
+  VISION_CLI_OPTIONS,
+  createVisionProvider,
+  resolveVisionOptions,
+} from "./lib/vision";
+
+/**
+ * Fill in brand, copy, category and tags for entries imported before ad
+ * metadata existed, whose extraction failed, or that were extracted with
+ * another model or prompt version.
+ *
+ * The previously extracted tags are replaced; tags added by hand (in
+ * `tags` but not `extracted_tags`) survive a re-run.
+ */
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      ...VISION_CLI_OPTIONS,
+      "dry-run": { type: "boolean", default: false },
+    },
+  });
+
+  const vision = createVisionProvider(resolveVisionOptions(values));
+  const data = await loadImagesYaml();
+
+  const stale = data.images.filter((img) => isAdMetadataStale(img, vision.model));
+  console.log(`Found ${data.images.length} images, ${stale.length} with stale ad metadata`);
+  console.log(`Vision: ${vision.name}/${vision.model}\n`);
+
+  if (values["dry-run"]) {
+    for (const img of stale) {
+      console.log(
+        `  ${img.id}: ${img.ad ? `${img.ad.model}, prompt v${img.ad.prompt_version}` : "missing"}`
+      );
+    }
+    return;
+  }
+
+  let extracted = 0;
+  let failed = 0;
+
+  for (const img of stale) {
+    console.log(`Processing: ${img.id} (${img.original_path})`);
+    let imageBuffer: Buffer;
+    try {
+      imageBuffer = fs.readFileSync(path.join(PUBLIC_IMAGES_DIR, img.filename));
+    } catch (error) {
+      // A missing file fails this entry only; `pnpm manifest verify` lists them all
+      console.error(`  ❌ ${error}`);
+      failed++;
+      console.log();
+      continue;
+    }
+    const result = await extractAdMetadata(vision, imageBuffer, img.original_hash);
+
+    if (!result) {
+      failed++;
+    } else {
+      const manualTags = img.tags.filter(
+        (tag) => !img.extracted_tags.includes(tag) && !result.tags.includes(tag)
+      );
+      img.ad = result.ad;
+      img.extracted_tags = result.tags;
+      img.tags = [...result.tags, ...manualTags];
+      extracted++;
+      // Save after each image so an interrupted run keeps its progress
+      saveImagesYaml(data);
+    }
+    console.log();
+  }
+
+  console.log("═".repeat(50));
+  console.log(`✓ Extracted: ${extracted}`);
+  if (failed > 0) {
+    console.warn(`⚠ Failed: ${failed}`);
+  }
+}
+
+main().catch((error) => {
+  console.error("Fatal error:", error);
+  process.exit(1);
+});
@@ -0,0 +1,147 @@
+#!/usr/bin/env tsx
+import * as fs from "fs";
+import { parseArgs } from "util";
+import { writeFileAtomic } from "./lib/atomic-write";
+import { GEODATA_DIR, NEIGHBORHOODS_GEOJSON_PATH, STREETS_GEOJSON_PATH } from "./lib/paths";
+import { isNeighborhood } from "../src/lib/neighborhoods";
+
+// DataSF "Analysis Neighborhoods" and "Streets - Active and Retired".
+// Socrata caps GeoJSON exports at 1000 rows unless told otherwise.
+const DEFAULT_NEIGHBORHOODS_URL = "https://data.sfgov.org/resource/j2bu-swwd.geojson?$limit=1000";
+const DEFAULT_STREETS_URL = "https://data.sfgov.org/resource/3psu-pn9h.geojson?$limit=50000";
+
+type Position = [number, number];
+
+interface SourceFeature {
+  properties: Record<string, unknown> | null;
+  geometry: { type: string; coordinates: unknown } | null;
+}
+
+async function fetchFeatures(url: string): Promise<SourceFeature[]> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`${url} returned ${response.status} ${response.statusText}`);
+  }
+  const json = await response.json();
+  if (json?.type !== "FeatureCollection" || !Array.isArray(json.features)) {
+    throw new Error(`${url} did not return a GeoJSON FeatureCollection`);
+  }
+  return json.features;
+}
+
+/**
+ * Round coordinates to 6 decimals (~10 cm) to keep the bundled files small
+ */
+function roundCoordinates<T>(coordinates: T): T {
+  if (typeof coordinates === "number") {
+    return (Math.round(coordinates * 1e6) / 1e6) as T;
+  }
+  return (coordinates as unknown[]).map(roundCoordinates) as T;
+}
+
+/**
+ * "05TH ST" → "5th St", "MARKET ST" → "Market St"
+ */
+function formatStreetName(raw: string): string {
+  return raw
+    .trim()
+    .toLowerCase()
+    .split(/\s+/)
+    .map((word) =>
+      /^\d/.test(word) ? word.replace(/^0+(?=\d)/, "") : word[0].toUpperCase() + word.slice(1)
+    )
+    .join(" ");
+}
+
+function buildNeighborhoods(features: SourceFeature[]) {
+  return features.map((feature) => {
+    const name = feature.properties?.nhood;
+    const geometry = feature.geometry;
+    if (typeof name !== "string" || !geometry || !/Polygon$/.test(geometry.type)) {
+      throw new Error(`Unexpected neighborhood feature: ${JSON.stringify(feature.properties)}`);
+    }
+    // Browse pages are generated from the list, not from the dataset
+    if (!isNeighborhood(name)) {
+      throw new Error(`Unknown neighborhood "${name}", add it to src/lib/neighborhoods.ts`);
+    }
+    return {
+      type: "Feature",
+      properties: { name },
+      geometry: { type: geometry.type, coordinates: roundCoordinates(geometry.coordinates) },
+    };
+  });
+}
+
+/**
+ * One MultiLineString per street name, so a street is matched once however
+ * many blocks it has. Retired streets are left out.
+ */
+function buildStreets(features: SourceFeature[]) {
+  const lines = new Map<string, Position[][]>();
+  for (const feature of features) {
+    const props = feature.properties ?? {};
+    if (String(props.active).toLowerCase() === "false") continue;
+
+    const raw =
+      typeof props.streetname === "string"
+        ? props.streetname
+        : [props.street, props.st_type].filter((part) => typeof part === "string").join(" ");
+    const geometry = feature.geometry;
+    if (!raw.trim() || !geometry) continue;
+
+    const parts =
+      geometry.type === "LineString"
+        ? [geometry.coordinates as Position[]]
+        : geometry.type === "MultiLineString"
+          ? (geometry.coordinates as Position[][])
+          : [];
+    const name = formatStreetName(raw);
+    lines.set(name, [...(lines.get(name) ?? []), ...parts.map(roundCoordinates)]);
+  }
+
+  if (lines.size === 0) {
+    throw new Error("No named street found, has the dataset's schema changed?");
+  }
+  return [...lines].map(([name, coordinates]) => ({
+    type: "Feature",
+    properties: { name },
+    geometry: { type: "MultiLineString", coordinates },
+  }));
+}
+
+/**
+ * Download the neighborhood boundaries and street centerlines used to label
+ * locations, and store them in src/data/geo so imports never need the
+ * network. Re-run when DataSF updates them, then `pnpm geocode --all`.
+ */
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      "neighborhoods-url": { type: "string", default: DEFAULT_NEIGHBORHOODS_URL },
+      "streets-url": { type: "string", default: DEFAULT_STREETS_URL },
+    },
+  });
+
+  fs.mkdirSync(GEODATA_DIR, { recursive: true });
+
+  console.log(`Fetching ${values["neighborhoods-url"]}`);
+  const neighborhoods = buildNeighborhoods(await fetchFeatures(values["neighborhoods-url"]));
+  writeFileAtomic(
+    NEIGHBORHOODS_GEOJSON_PATH,
+    JSON.stringify({ type: "FeatureCollection", features: neighborhoods })
+  );
+  console.log(`💾 ${neighborhoods.length} neighborhoods`);
+
+  console.log(`Fetching ${values["streets-url"]}`);
+  const streets = buildStreets(await fetchFeatures(values["streets-url"]));
+  writeFileAtomic(
+    STREETS_GEOJSON_PATH,
+    JSON.stringify({ type: "FeatureCollection", features: streets })
+  );
+  console.log(`💾 ${streets.length} streets`);
+}
+
+main().catch((error) => {
+  console.error("Fatal error:", error);
+  process.exit(1);
+});
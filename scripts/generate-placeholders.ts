@@ -0,0 +1,69 @@
+#!/usr/bin/env tsx
+import * as path from "path";
+import { parseArgs } from "util";
+import { decodeOriginal } from "./lib/derivatives";
+import { loadImagesYaml, saveImagesYaml } from "./lib/manifest";
+import { ORIGINALS_DIR } from "./lib/paths";
+import { computePlaceholder } from "./lib/placeholder";
+
+/**
+ * Compute the blurred previews and dominant color for entries imported
+ * before placeholders existed. Pass --all to recompute every entry.
+ */
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      all: { type: "boolean", default: false },
+      "dry-run": { type: "boolean", default: false },
+    },
+  });
+
+  const data = await loadImagesYaml();
+  const pending = data.images.filter((img) => values.all || !img.placeholder);
+  console.log(`Found ${data.images.length} images, ${pending.length} without placeholders\n`);
+
+  if (values["dry-run"]) {
+    for (const img of pending) {
+      console.log(`  ${img.id}: ${img.original_path}`);
+    }
+    return;
+  }
+
+  let generated = 0;
+  let failed = 0;
+
+  for (const img of pending) {
+    console.log(`Processing: ${img.id} (${img.original_path})`);
+    try {
+      const { image, width, height } = await decodeOriginal(
+        path.join(ORIGINALS_DIR, img.original_path)
+      );
+      if (width !== img.width || height !== img.height) {
+        throw new Error(
+          `original is ${width}x${height} but the manifest says ${img.width}x${img.height}`
+        );
+      }
+
+      img.placeholder = await computePlaceholder(image, img.thumbnail_crop);
+      generated++;
+      // Save after each image so an interrupted run keeps its progress
+      saveImagesYaml(data);
+      console.log(`  ✓ Placeholder: ${img.placeholder.color}`);
+    } catch (error) {
+      console.error(`  ❌ ${error}`);
+      failed++;
+    }
+    console.log();
+  }
+
+  console.log("═".repeat(50));
+  console.log(`✓ Generated: ${generated}`);
+  if (failed > 0) {
+    console.warn(`⚠ Failed: ${failed}`);
+  }
+}
+
+main().catch((error) => {
+  console.error("Fatal error:", error);
+  process.exit(1);
+});
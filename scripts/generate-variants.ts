@@ -0,0 +1,84 @@
+#!/usr/bin/env tsx
+import * as path from "path";
+import { parseArgs } from "util";
+import {
+  decodeOriginal,
+  encodeFullVariants,
+  encodeThumbnailVariants,
+  planImageVariants,
+  writeVariants,
+} from "./lib/derivatives";
+import { loadImagesYaml, saveImagesYaml } from "./lib/manifest";
+import { ORIGINALS_DIR } from "./lib/paths";
+
+/**
+ * Generate the AVIF/WebP/JPEG variants for entries imported before they
+ * existed. Pass --all to regenerate every entry, e.g. after changing the
+ * widths or formats in src/lib/variants.ts (then `pnpm manifest repair`
+ * deletes the files that are no longer referenced).
+ */
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      all: { type: "boolean", default: false },
+      "dry-run": { type: "boolean", default: false },
+    },
+  });
+
+  const data = await loadImagesYaml();
+  const pending = data.images.filter((img) => values.all || !img.variants);
+  console.log(`Found ${data.images.length} images, ${pending.length} to generate variants for\n`);
+
+  if (values["dry-run"]) {
+    for (const img of pending) {
+      console.log(`  ${img.id}: ${img.original_path}`);
+    }
+    return;
+  }
+
+  let generated = 0;
+  let failed = 0;
+
+  for (const img of pending) {
+    console.log(`Processing: ${img.id} (${img.original_path})`);
+    try {
+      const { image, width, height } = await decodeOriginal(
+        path.join(ORIGINALS_DIR, img.original_path)
+      );
+      if (width !== img.width || height !== img.height) {
+        throw new Error(
+          `original is ${width}x${height} but the manifest says ${img.width}x${img.height}`
+        );
+      }
+
+      const variants = planImageVariants(width, img.thumbnail_crop);
+      const files = [
+        ...writeVariants(img.filename, await encodeFullVariants(image, variants.full)),
+        ...writeVariants(
+          img.thumbnail_filename,
+          await encodeThumbnailVariants(image, img.thumbnail_crop, variants.thumbnail)
+        ),
+      ];
+      img.variants = variants;
+      generated++;
+      // Save after each image so an interrupted run keeps its progress
+      saveImagesYaml(data);
+      console.log(`  💾 Saved ${files.length} variants`);
+    } catch (error) {
+      console.error(`  ❌ ${error}`);
+      failed++;
+    }
+    console.log();
+  }
+
+  console.log("═".repeat(50));
+  console.log(`✓ Generated: ${generated}`);
+  if (failed > 0) {
+    console.warn(`⚠ Failed: ${failed}`);
+  }
+}
+
+main().catch((error) => {
+  console.error("Fatal error:", error);
+  process.exit(1);
+});
@@ -0,0 +1,56 @@
+#!/usr/bin/env tsx
+import { parseArgs } from "util";
+import { geocodeLocation, loadGeocoder } from "./lib/geocode";
+import { loadImagesYaml, saveImagesYaml } from "./lib/manifest";
+
+/**
+ * Label entries with their neighborhood and nearest street, from the
+ * bundled datasets. Pass --all to relabel every entry (after
+ * `pnpm fetch-geodata`).
+ *
+ * Labels come from the published location, so they never say more than
+ * the coordinates already do.
+ */
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      all: { type: "boolean", default: false },
+      "dry-run": { type: "boolean", default: false },
+    },
+  });
+
+  const geocoder = loadGeocoder();
+  if (!geocoder) {
+    console.error("Neighborhood and street data not found, run pnpm fetch-geodata first");
+    process.exit(1);
+  }
+
+  const data = await loadImagesYaml();
+  const pending = data.images.filter((img) => values.all || !img.place);
+  console.log(`Found ${data.images.length} images, ${pending.length} to geocode\n`);
+
+  let changed = 0;
+  for (const img of pending) {
+    const place = geocodeLocation(geocoder, img.location);
+    if (JSON.stringify(place) === JSON.stringify(img.place)) continue;
+
+    console.log(
+      `  🌍 id ${img.id}: ${place?.street ?? "no street"}, ${place?.neighborhood ?? "no neighborhood"}`
+    );
+    img.place = place;
+    changed++;
+  }
+
+  if (!values["dry-run"] && changed > 0) {
+    saveImagesYaml(data);
+  }
+
+  console.log();
+  console.log("═".repeat(50));
+  console.log(`✓ ${values["dry-run"] ? "Would change" : "Changed"}: ${changed}`);
+}
+
+main().catch((error) => {
+  console.error("Fatal error:", error);
+  process.exit(1);
+});
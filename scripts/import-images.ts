@@ -1,413 +1,303 @@
 #!/usr/bin/env tsx
 import * as fs from "fs";
 import * as path from "path";
-import * as crypto from "crypto";
-import { execSync } from "child_process";
-import sharp from "sharp";
-import exifr from "exifr";
-import YAML from "yaml";
-import OpenAI from "openai";
-import { find as findTimezone } from "geo-tz";
+import { parseArgs } from "util";
+import { extractAdMetadata } from "./lib/ad-metadata";
+import { generateAltText } from "./lib/alt-text";
+import { removeStaleTempFiles, writeFileAtomic } from "./lib/atomic-write";
+import { mapOrdered } from "./lib/concurrency";
+import {
+  decodeOriginal,
+  encodeFullImage,
+  encodeFullVariants,
+  encodeThumbnail,
+  encodeThumbnailVariants,
+  planImageVariants,
+  writeVariants,
+  type EncodedVariant,
+} from "./lib/derivatives";
+import { geocodeLocation, loadGeocoder, type Geocoder } from "./lib/geocode";
+import { computeFileHash } from "./lib/hash";
+import { resolveCaptureMetadata } from "./lib/image-metadata";
+import {
+  DEFAULT_INFERENCE_WINDOW_MINUTES,
+  getManifestShots,
+  type LocatedShot,
+} from "./lib/location-inference";
+import {
+  loadImagesYaml,
+  saveImagesYaml,
+  type ImageEntry,
+  type ImagesYaml,
+} from "./lib/manifest";
+import { loadOverrides, type Overrides } from "./lib/overrides";
+import { ORIGINALS_DIR, PUBLIC_IMAGES_DIR } from "./lib/paths";
+import {
+  DEFAULT_NEAR_DUPLICATE_THRESHOLD,
+  computePerceptualHash,
+  findNearDuplicates,
+} from "./lib/perceptual-hash";
+import { computePlaceholder } from "./lib/placeholder";
+import {
+  applyLocationPrivacy,
+  resolvePrivacyPolicy,
+  type PrivacyPolicy,
+} from "./lib/privacy";
+import {
+  computeThumbnailCrop,
+  resolveCropStrategy,
+  type AutoCropStrategy,
+} from "./lib/smart-crop";
+import {
+  VISION_CLI_OPTIONS,
+  createVisionProvider,
+  resolveVisionOptions,
+  type VisionProvider,
+} from "./lib/vision";
 
 // Configuration
-const PUBLIC_IMAGES_DIR = path.join(process.cwd(), "public/images");
-const ORIGINALS_DIR = path.join(process.cwd(), "originals");
-const IMAGES_YAML_PATH = path.join(process.cwd(), "src/data/images.yaml");
-const ALT_TEXT_CACHE_DIR = path.join(process.cwd(), ".cache/alt-text");
 const SUPPORTED_EXTENSIONS = [".heic", ".jpg", ".jpeg"];
 
-// Ensure cache directory exists
-if (!fs.existsSync(ALT_TEXT_CACHE_DIR)) {
-  fs.mkdirSync(ALT_TEXT_CACHE_DIR, { recursive: true });
+interface PreparedImage {
+  sourcePath: string;
+  /** XMP / Takeout sidecars, archived next to the original */
+  sidecars: string[];
+  hash: string;
+  fullJpeg: Buffer;
+  thumbJpeg: Buffer;
+  fullVariants: EncodedVariant[];
+  thumbVariants: EncodedVariant[];
+  /** Everything but the id-derived fields, which are assigned at commit */
+  entry: Omit<ImageEntry, "id" | "filename" | "thumbnail_filename">;
 }
 
-interface ImageLocation {
-  lat: number;
-  lng: number;
-}
-
-interface ImageEntry {
-  id: number;
-  filename: string;
-  thumbnail_filename: string;
-  original_path: string;
-  original_hash: string;
-  taken_at: string;
-  imported_at: string;
-  width: number;
-  height: number;
-  location: ImageLocation;
-  timezone: string;
-  ai_generated_alt_text: string;
-  description: string;
-  tags: string[];
-}
-
-interface ImagesYaml {
-  images: ImageEntry[];
-}
-
-// Initialize OpenAI client
-const openai = new OpenAI();
-
-async function computeFileHash(filePath: string): Promise<string> {
-  const fileBuffer = fs.readFileSync(filePath);
-  const hash = crypto.createHash("sha256").update(fileBuffer).digest("hex");
-  return `sha256:${hash}`;
-}
+type PrepareResult =
+  | { status: "prepared"; image: PreparedImage }
+  | { status: "skipped" }
+  | { status: "failed"; error: unknown };
 
 /**
- * Convert DMS (degrees, minutes, seconds) to decimal degrees
+ * Do all the slow work for one file (decode, metadata, alt text, crop, encode)
+ * without touching public/images or the manifest. Safe to run in parallel.
  */
-function dmsToDecimal(dmsString: string): number {
-  // Handle both formats: "37,48,17.44" (DMS) and "37.8043" (decimal)
-  if (dmsString.includes(',')) {
-    // DMS format: degrees,minutes,seconds
-    const parts = dmsString.split(',').map(p => parseFloat(p.trim()));
-    if (parts.length === 3) {
-      const [degrees, minutes, seconds] = parts;
-      return degrees + (minutes / 60) + (seconds / 3600);
-    }
+async function prepareImage(
+  sourcePath: string,
+  existingHashes: Set<string>,
+  options: {
+    vision: VisionProvider;
+    cropStrategy: AutoCropStrategy;
+    privacy: PrivacyPolicy;
+    overrides: Overrides;
+    geocoder: Geocoder | null;
+    /** Shots to infer missing locations from (`--infer-location`) */
+    inference?: { references: LocatedShot[]; windowMinutes: number };
   }
-  // Decimal format or fallback
-  return parseFloat(dmsString);
-}
+): Promise<PrepareResult> {
+  const filename = path.basename(sourcePath);
+  const ext = path.extname(sourcePath).toLowerCase();
 
-/**
- * Extract EXIF from HEIC using macOS mdls command
- */
-function extractHeicExifViaMdls(filePath: string): {
-  takenAt: Date | null;
-  location: ImageLocation | null;
-} {
   try {
-    const output = execSync(
-      `mdls -name kMDItemContentCreationDate -name kMDItemLatitude -name kMDItemLongitude "${filePath}"`,
-      { encoding: "utf-8" }
-    );
-
-    let takenAt: Date | null = null;
-    let location: ImageLocation | null = null;
-
-    const dateMatch = output.match(/kMDItemContentCreationDate\s*=\s*(.+)/);
-    if (dateMatch && !dateMatch[1].includes("null")) {
-      takenAt = new Date(dateMatch[1].trim());
+    // Compute hash for deduplication
+    const hash = await computeFileHash(sourcePath);
+    if (existingHashes.has(hash)) {
+      console.log(`⏭ Skipping ${filename} (already imported)`);
+      return { status: "skipped" };
     }
 
-    const latMatch = output.match(/kMDItemLatitude\s*=\s*([^\s]+)/);
-    const lngMatch = output.match(/kMDItemLongitude\s*=\s*([^\s]+)/);
-    if (latMatch && lngMatch) {
-      location = {
-        lat: dmsToDecimal(latMatch[1]),
-        lng: dmsToDecimal(lngMatch[1]),
-      };
-    }
+    console.log(`Processing: ${filename}`);
 
-    return { takenAt, location };
-  } catch {
-    return { takenAt: null, location: null };
-  }
-}
-
-async function extractExifData(
-  filePath: string,
-  convertedJpegPath?: string
-): Promise<{
-  takenAt: Date;
-  location: ImageLocation;
-  timezone: string;
-  width: number;
-  height: number;
-}> {
-  const ext = path.extname(filePath).toLowerCase();
-  let takenAt: Date | null = null;
-  let location: ImageLocation | null = null;
-  let width = 0;
-  let height = 0;
-
-  // For HEIC files, try mdls first (macOS native, very reliable)
-  if (ext === ".heic") {
-    const mdlsData = extractHeicExifViaMdls(filePath);
-    takenAt = mdlsData.takenAt;
-    location = mdlsData.location;
-  }
+    // Convert to JPEG first (needed for EXIF fallback on HEIC)
+    const decoded = await decodeOriginal(sourcePath);
+    const { image: imageBuffer, width, height } = decoded;
 
-  // Try exifr on original file or converted JPEG
-  const exifSource = convertedJpegPath || filePath;
-  try {
-    const exif = await exifr.parse(exifSource, {
-      pick: [
-        "DateTimeOriginal",
-        "CreateDate",
-        "GPSLatitude",
-        "GPSLongitude",
-        "ImageWidth",
-        "ImageHeight",
-        "ExifImageWidth",
-        "ExifImageHeight",
-      ],
+    // Date and location from the override, sidecars or EXIF (from original
+    // HEIC container, or converted JPEG as fallback)
+    const exifData = await resolveCaptureMetadata(sourcePath, {
+      convertedJpeg: ext === ".heic" ? decoded.converted : undefined,
+      override: options.overrides[filename],
+      inference: options.inference,
     });
 
-    // Use exifr date if we don't have one from mdls
-    if (!takenAt) {
-      if (exif?.DateTimeOriginal) {
-        takenAt = new Date(exif.DateTimeOriginal);
-      } else if (exif?.CreateDate) {
-        takenAt = new Date(exif.CreateDate);
-      }
+    console.log(`  📐 Dimensions: ${width}x${height}`);
+    if (exifData.sidecars.length > 0) {
+      console.log(`  📎 Sidecars: ${exifData.sidecars.map((file) => path.basename(file)).join(", ")}`);
+    }
+    if (exifData.takenAtSource === "file_mtime") {
+      console.warn(`  ⚠ No date in EXIF or sidecars, using file modification time`);
+    }
+    if (exifData.locationSource === "inferred") {
+      console.warn(`  ⚠ No GPS, location inferred from shots taken around the same time`);
+    }
+    if (exifData.takenAtSource !== "exif" || exifData.locationSource !== "exif") {
+      console.log(`  📅 Date from ${exifData.takenAtSource}, location from ${exifData.locationSource}`);
     }
 
-    // Use exifr location if we don't have one from mdls
-    if (!location && exif?.latitude && exif?.longitude) {
-      location = {
-        lat: exif.latitude,
-        lng: exif.longitude,
-      };
+    // Only the fuzzed or zone-adjusted location is published (or logged)
+    const published = applyLocationPrivacy(exifData.location, options.privacy);
+    if (published.location) {
+      console.log(`  🌍 Location: ${published.location.lat.toFixed(4)}, ${published.location.lng.toFixed(4)} (${published.privacy}, ${exifData.timezone})`);
+    } else {
+      console.log(`  🔒 Location hidden (private zone, ${exifData.timezone})`);
     }
 
-    width = exif?.ExifImageWidth || exif?.ImageWidth || 0;
-    height = exif?.ExifImageHeight || exif?.ImageHeight || 0;
-  } catch (error) {
-    // exifr failed, continue with what we have
-  }
+    // Labelled from the published location, never the raw one
+    const place = geocodeLocation(options.geocoder, published.location);
+    if (place?.neighborhood || place?.street) {
+      console.log(`  🏙 Place: ${[place.street, place.neighborhood].filter(Boolean).join(", ")}`);
+    }
 
-  // Final fallback for date
-  if (!takenAt) {
-    console.warn(`  ⚠ No EXIF date found, using file modification time`);
-    const stats = fs.statSync(filePath);
-    takenAt = stats.mtime;
-  }
+    // Generate alt text with AI (cached by hash)
+    const altText = await generateAltText(options.vision, imageBuffer, hash);
 
-  // GPS location is required
-  if (!location) {
-    throw new Error(`No GPS coordinates found in ${path.basename(filePath)}`);
-  }
+    // Brand, copy, category and tags from a second pass (cached by hash)
+    const adMetadata = await extractAdMetadata(options.vision, imageBuffer, hash);
 
-  // Lookup timezone from GPS coordinates
-  const timezones = findTimezone(location.lat, location.lng);
-  if (timezones.length === 0) {
-    throw new Error(`Could not determine timezone for coordinates ${location.lat}, ${location.lng}`);
-  }
-  const timezone = timezones[0];
+    // Square-cropped thumbnail around the ad's salient region
+    const crop = await computeThumbnailCrop(
+      imageBuffer,
+      width,
+      height,
+      options.cropStrategy,
+      options.vision
+    );
 
-  return { takenAt, location, timezone, width, height };
+    // AVIF, WebP and JPEG at several widths, served with srcset
+    const variants = planImageVariants(width, crop);
+
+    // Shown while the variants load
+    const placeholder = await computePlaceholder(imageBuffer, crop);
+
+    return {
+      status: "prepared",
+      image: {
+        sourcePath,
+        sidecars: exifData.sidecars,
+        hash,
+        fullJpeg: await encodeFullImage(imageBuffer),
+        thumbJpeg: await encodeThumbnail(imageBuffer, crop),
+        fullVariants: await encodeFullVariants(imageBuffer, variants.full),
+        thumbVariants: await encodeThumbnailVariants(imageBuffer, crop, variants.thumbnail),
+        entry: {
+          original_path: filename,
+          original_hash: hash,
+          perceptual_hash: await computePerceptualHash(imageBuffer),
+          taken_at: exifData.takenAt.toISOString(),
+          taken_at_source: exifData.takenAtSource,
+          imported_at: new Date().toISOString(),
+          width,
+          height,
+          thumbnail_crop: crop,
+          variants,
+          placeholder,
+          location: published.location,
+          location_source: exifData.locationSource,
+          location_privacy: published.privacy,
+          place,
+          timezone: exifData.timezone,
+          ai_generated_alt_text: altText.text,
+          alt_text_provenance: altText.provenance,
+          ad: adMetadata?.ad ?? null,
+          description: exifData.description ?? "",
+          tags: adMetadata?.tags ?? [],
+          extracted_tags: adMetadata?.tags ?? [],
+        },
+      },
+    };
+  } catch (error) {
+    console.error(`  ❌ Failed to process ${filename}: ${error}`);
+    return { status: "failed", error };
+  }
 }
 
 /**
- * Convert HEIC to JPEG using macOS sips command (has native HEIC support)
+ * Warn about manifest entries that look like the same shot.
+ * Returns whether any were found.
  */
-function convertHeicToJpeg(inputPath: string, outputPath: string): void {
-  execSync(`sips -s format jpeg "${inputPath}" --out "${outputPath}"`, {
-    stdio: "pipe",
-  });
-}
-
-function getCachedAltText(hash: string): string | null {
-  const cacheFile = path.join(ALT_TEXT_CACHE_DIR, `${hash.replace(":", "_")}.txt`);
-  if (fs.existsSync(cacheFile)) {
-    return fs.readFileSync(cacheFile, "utf-8");
-  }
-  return null;
+function reportNearDuplicates(
+  prepared: PreparedImage,
+  images: ImageEntry[],
+  threshold: number
+): boolean {
+  const matches = findNearDuplicates(prepared.entry.perceptual_hash, images, threshold);
+  if (matches.length === 0) return false;
+
+  const list = matches
+    .map(({ entry, distance }) => `${entry.id} (${entry.original_path}, distance ${distance})`)
+    .join(", ");
+  console.warn(`⚠ ${prepared.entry.original_path} looks like a near-duplicate of ${list}`);
+  return true;
 }
 
-function setCachedAltText(hash: string, altText: string): void {
-  const cacheFile = path.join(ALT_TEXT_CACHE_DIR, `${hash.replace(":", "_")}.txt`);
-  fs.writeFileSync(cacheFile, altText, "utf-8");
-}
-
-async function generateAltText(imageBuffer: Buffer, hash: string): Promise<string> {
-  // Check cache first
-  const cached = getCachedAltText(hash);
-  if (cached) {
-    console.log(`  ✓ Alt (cached): ${cached.substring(0, 50)}...`);
-    return cached;
-  }
-
-  console.log(`  🤖 Generating alt text...`);
-  try {
-    const base64Image = imageBuffer.toString("base64");
-
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o",
-      messages: [
-        {
-          role: "user",
-          content: [
-            {
-              type: "text",
-              text: `This is a photo of an advertisement or billboard in San Francisco.
-
-Write a 1-2 sentence alt text description that:
-- Describes what the advertisement says or shows
-- Mentions the brand/company name if visible
-- Notes any distinctive visual elements
-
-Return JSON: {"alt_text": "..."}`,
-            },
-            {
-              type: "image_url",
-              image_url: {
-                url: `data:image/jpeg;base64,${base64Image}`,
-              },
-            },
-          ],
-        },
-      ],
-      max_tokens: 300,
-      response_format: { type: "json_object" },
-    });
-
-    const content = response.choices[0]?.message?.content;
-    if (!content) {
-      throw new Error("No response from AI");
+/**
+ * Give a prepared image its id, write its files and record it in the
+ * manifest. Fully synchronous, so an interrupt lands before or after it.
+ *
+ * Derivatives are written before the manifest: if the process dies in
+ * between, the next run hands out the same id and overwrites them.
+ */
+function commitImage(prepared: PreparedImage, id: number, data: ImagesYaml): ImageEntry {
+  // Generate filenames
+  const paddedId = String(id).padStart(5, "0");
+  const fullFilename = `${paddedId}.jpg`;
+  const thumbFilename = `${paddedId}_thumb.jpg`;
+
+  writeFileAtomic(path.join(PUBLIC_IMAGES_DIR, fullFilename), prepared.fullJpeg);
+  writeFileAtomic(path.join(PUBLIC_IMAGES_DIR, thumbFilename), prepared.thumbJpeg);
+  const variantCount =
+    writeVariants(fullFilename, prepared.fullVariants).length +
+    writeVariants(thumbFilename, prepared.thumbVariants).length;
+
+  // Copy original and its sidecars to originals folder (if not already there)
+  for (const source of [prepared.sourcePath, ...prepared.sidecars]) {
+    const dest = path.join(ORIGINALS_DIR, path.basename(source));
+    if (path.resolve(source) !== path.resolve(dest)) {
+      fs.copyFileSync(source, dest);
     }
-
-    const parsed = JSON.parse(content);
-    const altText = parsed.alt_text || "An advertisement from San Francisco.";
-    
-    // Cache the result
-    setCachedAltText(hash, altText);
-    console.log(`  ✓ Alt: ${altText.substring(0, 50)}...`);
-    
-    return altText;
-  } catch (error) {
-    console.warn(`  ⚠ Alt text generation failed: ${error}`);
-    return "An advertisement from San Francisco.";
   }
-}
 
+  const entry: ImageEntry = {
+    id,
+    filename: fullFilename,
+    thumbnail_filename: thumbFilename,
+    ...prepared.entry,
+  };
+  data.images.push(entry);
+  saveImagesYaml(data);
 
-async function processImage(
-  sourcePath: string,
-  id: number,
-  existingHashes: Set<string>
-): Promise<ImageEntry | null> {
-  const filename = path.basename(sourcePath);
-  const ext = path.extname(sourcePath).toLowerCase();
-  console.log(`Processing: ${filename}`);
-
-  // Compute hash for deduplication
-  const hash = await computeFileHash(sourcePath);
-  if (existingHashes.has(hash)) {
-    console.log(`  ⏭ Skipping (already imported)`);
-    return null;
-  }
-
-  // Convert to JPEG first (needed for EXIF fallback on HEIC)
-  let imageBuffer: Buffer;
-  const tempJpegPath = path.join(
-    PUBLIC_IMAGES_DIR,
-    `temp_${Date.now()}.jpg`
+  const crop = entry.thumbnail_crop;
+  console.log(
+    `💾 Saved ${entry.original_path} as ${fullFilename} + ${thumbFilename} + ${variantCount} variants (${crop.strategy} crop at ${crop.left},${crop.top})`
   );
-
-  try {
-    if (ext === ".heic") {
-      // Use sips on macOS for HEIC conversion
-      console.log(`  🔄 Converting HEIC to JPEG...`);
-      convertHeicToJpeg(sourcePath, tempJpegPath);
-      imageBuffer = fs.readFileSync(tempJpegPath);
-    } else {
-      // Read JPEG directly
-      imageBuffer = fs.readFileSync(sourcePath);
-    }
-
-    // Extract EXIF data (from original HEIC via mdls, or converted JPEG as fallback)
-    const exifData = await extractExifData(
-      sourcePath,
-      ext === ".heic" ? tempJpegPath : undefined
-    );
-
-    // Auto-rotate and get accurate dimensions
-    imageBuffer = await sharp(imageBuffer)
-      .rotate() // Auto-rotate based on EXIF
-      .jpeg({ quality: 95 })
-      .toBuffer();
-
-    const metadata = await sharp(imageBuffer).metadata();
-    const width = metadata.width!;
-    const height = metadata.height!;
-
-    console.log(`  📐 Dimensions: ${width}x${height}`);
-    console.log(`  🌍 Location: ${exifData.location.lat.toFixed(4)}, ${exifData.location.lng.toFixed(4)} (${exifData.timezone})`);
-
-    // Generate alt text with AI (cached by hash)
-    const altText = await generateAltText(imageBuffer, hash);
-
-    // Generate filenames
-    const paddedId = String(id).padStart(5, "0");
-    const fullFilename = `${paddedId}.jpg`;
-    const thumbFilename = `${paddedId}_thumb.jpg`;
-
-    // Save full image (original aspect ratio)
-    const fullPath = path.join(PUBLIC_IMAGES_DIR, fullFilename);
-    await sharp(imageBuffer).jpeg({ quality: 90 }).toFile(fullPath);
-    console.log(`  💾 Saved: ${fullFilename}`);
-
-    // Save square-cropped thumbnail (center crop)
-    const size = Math.min(width, height);
-    const cropX = Math.floor((width - size) / 2);
-    const cropY = Math.floor((height - size) / 2);
-    const thumbPath = path.join(PUBLIC_IMAGES_DIR, thumbFilename);
-    await sharp(imageBuffer)
-      .extract({ left: cropX, top: cropY, width: size, height: size })
-      .jpeg({ quality: 85 })
-      .toFile(thumbPath);
-    console.log(`  💾 Saved: ${thumbFilename}`);
-
-    // Copy original to originals folder (if not already there)
-    const originalDest = path.join(ORIGINALS_DIR, filename);
-    if (path.resolve(sourcePath) !== path.resolve(originalDest)) {
-      fs.copyFileSync(sourcePath, originalDest);
-      console.log(`  📁 Archived original`);
-    }
-
-    // Create entry
-    const entry: ImageEntry = {
-      id,
-      filename: fullFilename,
-      thumbnail_filename: thumbFilename,
-      original_path: filename,
-      original_hash: hash,
-      taken_at: exifData.takenAt.toISOString(),
-      imported_at: new Date().toISOString(),
-      width,
-      height,
-      location: exifData.location,
-      timezone: exifData.timezone,
-      ai_generated_alt_text: altText,
-      description: "",
-      tags: [],
-    };
-
-    return entry;
-  } finally {
-    // Clean up temp file
-    if (fs.existsSync(tempJpegPath)) {
-      fs.unlinkSync(tempJpegPath);
-    }
-  }
+  return entry;
 }
 
-async function loadImagesYaml(): Promise<ImagesYaml> {
-  if (!fs.existsSync(IMAGES_YAML_PATH)) {
-    return { images: [] };
+/**
+ * Locations and times of the photos in the batch that have GPS, for the
+ * ones without to be placed between them. Shots dated from the file's
+ * modification time are too unreliable to be used.
+ */
+async function collectLocatedShots(
+  sourceFiles: string[],
+  overrides: Overrides
+): Promise<LocatedShot[]> {
+  const shots: LocatedShot[] = [];
+  for (const file of sourceFiles) {
+    try {
+      const capture = await resolveCaptureMetadata(file, {
+        override: overrides[path.basename(file)],
+      });
+      if (capture.takenAtSource !== "file_mtime") {
+        shots.push({
+          takenAt: capture.takenAt,
+          location: capture.location,
+          timezone: capture.timezone,
+        });
+      }
+    } catch {
+      // No location: one of the photos to infer
+    }
   }
-
-  const content = fs.readFileSync(IMAGES_YAML_PATH, "utf-8");
-  const parsed = YAML.parse(content) as ImagesYaml;
-  return parsed || { images: [] };
-}
-
-function saveImagesYaml(data: ImagesYaml): void {
-  // Sort by taken_at descending (newest first)
-  data.images.sort(
-    (a, b) => new Date(b.taken_at).getTime() - new Date(a.taken_at).getTime()
-  );
-
-  const yamlContent = YAML.stringify(data, {
-    lineWidth: 0,
-  });
-  fs.writeFileSync(IMAGES_YAML_PATH, yamlContent);
+  return shots;
 }
 
 function scanSourceFolder(sourceFolder: string): string[] {
@@ -427,13 +317,62 @@ function scanSourceFolder(sourceFolder: string): string[] {
 }
 
 async function main() {
-  const args = process.argv.slice(2);
-  if (args.length === 0) {
-    console.error("Usage: pnpm import-images <source-folder>");
+  const { values, positionals } = parseArgs({
+    options: {
+      ...VISION_CLI_OPTIONS,
+      "crop-strategy": { type: "string" },
+      concurrency: { type: "string", default: "2" },
+      "near-duplicates": { type: "string", default: "warn" },
+      "near-duplicate-threshold": {
+        type: "string",
+        default: String(DEFAULT_NEAR_DUPLICATE_THRESHOLD),
+      },
+      "infer-location": { type: "boolean", default: false },
+      "infer-location-window": {
+        type: "string",
+        default: String(DEFAULT_INFERENCE_WINDOW_MINUTES),
+      },
+    },
+    allowPositionals: true,
+  });
+  if (positionals.length === 0) {
+    console.error(
+      "Usage: pnpm import-images <source-folder> [--concurrency <n>] [--near-duplicates warn|skip] [--near-duplicate-threshold <bits>] [--infer-location] [--infer-location-window <minutes>] [--vision-provider openai|local|fixture] [--vision-model <model>] [--crop-strategy saliency|entropy|vision|center]"
+    );
+    process.exit(1);
+  }
+
+  const concurrency = Number(values.concurrency);
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    console.error(`Invalid --concurrency: ${values.concurrency}`);
+    process.exit(1);
+  }
+
+  const nearDuplicates = values["near-duplicates"];
+  const nearDuplicateThreshold = Number(values["near-duplicate-threshold"]);
+  if (nearDuplicates !== "warn" && nearDuplicates !== "skip") {
+    console.error(`Invalid --near-duplicates: ${nearDuplicates} (expected warn or skip)`);
+    process.exit(1);
+  }
+  if (!Number.isInteger(nearDuplicateThreshold) || nearDuplicateThreshold < 0) {
+    console.error(`Invalid --near-duplicate-threshold: ${values["near-duplicate-threshold"]}`);
+    process.exit(1);
+  }
+
+  const inferenceWindow = Number(values["infer-location-window"]);
+  if (!Number.isFinite(inferenceWindow) || inferenceWindow <= 0) {
+    console.error(`Invalid --infer-location-window: ${values["infer-location-window"]}`);
     process.exit(1);
   }
 
-  const sourceFolder = path.resolve(args[0]);
+  const visionOptions = resolveVisionOptions(values);
+  const vision = createVisionProvider(visionOptions);
+  const cropStrategy = resolveCropStrategy(values["crop-strategy"]);
+  const privacy = resolvePrivacyPolicy();
+  const overrides = loadOverrides();
+  const geocoder = loadGeocoder();
+
+  const sourceFolder = path.resolve(positionals[0]);
   if (!fs.existsSync(sourceFolder)) {
     console.error(`Source folder not found: ${sourceFolder}`);
     process.exit(1);
@@ -443,47 +382,117 @@ async function main() {
   fs.mkdirSync(PUBLIC_IMAGES_DIR, { recursive: true });
   fs.mkdirSync(ORIGINALS_DIR, { recursive: true });
 
+  const staleTempFiles = removeStaleTempFiles(PUBLIC_IMAGES_DIR);
+  if (staleTempFiles > 0) {
+    console.log(`Removed ${staleTempFiles} temp file(s) from an interrupted run`);
+  }
+
   // Load existing data
   const data = await loadImagesYaml();
   const existingHashes = new Set(data.images.map((img) => img.original_hash));
   const maxId = data.images.reduce((max, img) => Math.max(max, img.id), 0);
 
   console.log(`Found ${data.images.length} existing images`);
-  console.log(`Next ID: ${maxId + 1}\n`);
+  console.log(`Next ID: ${maxId + 1}`);
+  console.log(`Vision: ${vision.name}/${vision.model}`);
+  console.log(`Thumbnail crop: ${cropStrategy}`);
+  console.log(`Location fuzz: ${privacy.fuzzMeters} m, ${privacy.zones.length} private zone(s)`);
+  console.log(`Overrides: ${Object.keys(overrides).length}`);
+  console.log(`Geocoding: ${geocoder ? "on" : "off (run pnpm fetch-geodata)"}`);
+  console.log(
+    `Location inference: ${values["infer-location"] ? `within ${inferenceWindow} min` : "off"}`
+  );
+  console.log(`Concurrency: ${concurrency}`);
+  console.log(`Near-duplicates: ${nearDuplicates} (threshold ${nearDuplicateThreshold})\n`);
 
   // Scan source folder
   const sourceFiles = scanSourceFolder(sourceFolder);
   console.log(`Found ${sourceFiles.length} images to process\n`);
 
+  // Photos without GPS are placed between the batch's and the manifest's
+  const inference = values["infer-location"]
+    ? {
+        references: [
+          ...(await collectLocatedShots(sourceFiles, overrides)),
+          ...getManifestShots(data.images),
+        ],
+        windowMinutes: inferenceWindow,
+      }
+    : undefined;
+
+  // First Ctrl-C finishes the images in flight, second one exits right away
+  let interrupted = false;
+  process.on("SIGINT", () => {
+    if (interrupted) process.exit(130);
+    interrupted = true;
+    console.warn("\n⚠ Interrupted, finishing images in progress (Ctrl-C again to abort)...");
+  });
+
   let nextId = maxId + 1;
   let imported = 0;
   let skipped = 0;
-
-  for (const filePath of sourceFiles) {
-    try {
-      const entry = await processImage(filePath, nextId, existingHashes);
-      if (entry) {
-        data.images.push(entry);
+  let failed = 0;
+  let altTextFailures = 0;
+  let adMetadataFailures = 0;
+
+  // Images are prepared in parallel but committed one by one in file order,
+  // so ids are handed out in the same order on every run
+  await mapOrdered(
+    sourceFiles,
+    concurrency,
+    (filePath) =>
+      prepareImage(filePath, existingHashes, {
+        vision,
+        cropStrategy,
+        privacy,
+        overrides,
+        geocoder,
+        inference,
+      }),
+    (result) => {
+      if (result.status === "failed") {
+        failed++;
+      } else if (result.status === "skipped" || existingHashes.has(result.image.hash)) {
+        // Also catches the same file present twice in the source folder
+        skipped++;
+      } else if (
+        reportNearDuplicates(result.image, data.images, nearDuplicateThreshold) &&
+        nearDuplicates === "skip"
+      ) {
+        skipped++;
+      } else {
+        const entry = commitImage(result.image, nextId, data);
         existingHashes.add(entry.original_hash);
         nextId++;
         imported++;
-      } else {
-        skipped++;
+        if (entry.alt_text_provenance.status === "fallback") altTextFailures++;
+        if (!entry.ad) adMetadataFailures++;
       }
-    } catch (error) {
-      console.error(`  ❌ Failed to process: ${error}`);
-      skipped++;
-    }
-    console.log();
-  }
-
-  // Save updated YAML
-  saveImagesYaml(data);
+    },
+    () => interrupted
+  );
 
+  console.log();
   console.log("═".repeat(50));
   console.log(`✓ Imported: ${imported}`);
   console.log(`⏭ Skipped: ${skipped}`);
+  if (failed > 0) {
+    console.log(`❌ Failed: ${failed}`);
+  }
   console.log(`📊 Total images: ${data.images.length}`);
+  if (altTextFailures > 0) {
+    console.warn(
+      `⚠ Alt text failed for ${altTextFailures} image(s), run pnpm regenerate-alt-text to retry`
+    );
+  }
+  if (adMetadataFailures > 0) {
+    console.warn(
+      `⚠ Ad metadata failed for ${adMetadataFailures} image(s), run pnpm extract-ad-metadata to retry`
+    );
+  }
+  if (interrupted) {
+    console.warn("⚠ Import interrupted, run the same command again to resume");
+  }
 }
 
 main().catch((error) => {
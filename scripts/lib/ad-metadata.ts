@@ -0,0 +1,124 @@
+import type { AdMetadata, ImageEntry } from "./manifest";
+import { parseJsonResponse, type VisionProvider } from "./vision";
+import { createResponseCache } from "./vision/cache";
+import {
+  AD_CATEGORIES,
+  AD_MEDIA,
+  AD_THEMES,
+  type AdCategory,
+  type AdMedium,
+  type AdTheme,
+  type Tag,
+} from "../../src/lib/tags";
+
+/**
+ * Bump whenever AD_METADATA_PROMPT or the vocabulary in src/lib/tags.ts
+ * changes so `extract-ad-metadata` picks up entries written before
+ */
+export const AD_METADATA_PROMPT_VERSION = 1;
+
+const AD_METADATA_PROMPT = `This is a photo of an advertisement or billboard in San Francisco.
+
+Extract the following and return JSON:
+{
+  "brand": company or product being advertised, or null if none is visible,
+  "copy": all text of the ad exactly as written, one line per visual line (no translation or correction),
+  "category": one of ${AD_CATEGORIES.join(", ")},
+  "medium": one of ${AD_MEDIA.join(", ")}, or null if unclear,
+  "themes": any that apply from ${AD_THEMES.join(", ")}
+}`;
+
+const cache = createResponseCache("ad-metadata", AD_METADATA_PROMPT_VERSION, "json");
+
+export interface AdMetadataResult {
+  ad: AdMetadata;
+  tags: Tag[];
+}
+
+function oneOf<T extends string>(values: readonly T[], value: unknown): T | null {
+  return values.includes(value as T) ? (value as T) : null;
+}
+
+/**
+ * Validate a raw model answer against the vocabulary. Unknown categories
+ * become `other`; unknown media and themes are dropped.
+ */
+function toResult(raw: Record<string, unknown>, model: string): AdMetadataResult {
+  if (typeof raw.copy !== "string") {
+    throw new Error(`Response has no copy: ${JSON.stringify(raw).substring(0, 100)}`);
+  }
+
+  const brand = typeof raw.brand === "string" && raw.brand.trim() ? raw.brand.trim() : null;
+  const category: AdCategory = oneOf(AD_CATEGORIES, raw.category) ?? "other";
+  const medium: AdMedium | null = oneOf(AD_MEDIA, raw.medium);
+  const themes = (Array.isArray(raw.themes) ? raw.themes : [])
+    .map((theme) => oneOf(AD_THEMES, theme))
+    .filter((theme): theme is AdTheme => theme !== null);
+
+  const tags: Tag[] = [category, ...(medium ? [medium] : []), ...themes];
+
+  return {
+    ad: {
+      brand,
+      copy: raw.copy.trim(),
+      category,
+      medium,
+      model,
+      prompt_version: AD_METADATA_PROMPT_VERSION,
+    },
+    tags: [...new Set(tags)],
+  };
+}
+
+/**
+ * Extract brand, verbatim copy, category, medium and tags with the vision
+ * provider (cached by original hash).
+ *
+ * Failures never throw: they return null so the entry can be filled in
+ * later with `pnpm extract-ad-metadata`.
+ */
+export async function extractAdMetadata(
+  provider: VisionProvider,
+  imageBuffer: Buffer,
+  hash: string
+): Promise<AdMetadataResult | null> {
+  const cached = cache.get(hash, provider.model);
+  if (cached) {
+    try {
+      const result = toResult(parseJsonResponse(cached), provider.model);
+      console.log(`  ✓ Ad (cached): ${result.ad.brand ?? "no brand"} [${result.tags.join(", ")}]`);
+      return result;
+    } catch (error) {
+      // Corrupt or written by an older toResult: extract again, which overwrites it
+      console.warn(`  ⚠ Ignoring cached ad metadata: ${error}`);
+    }
+  }
+
+  console.log(`  🤖 Extracting ad metadata (${provider.name}/${provider.model})...`);
+  try {
+    const content = await provider.complete({
+      image: imageBuffer,
+      prompt: AD_METADATA_PROMPT,
+      maxTokens: 500,
+    });
+
+    const raw = parseJsonResponse(content);
+    const result = toResult(raw, provider.model);
+
+    cache.set(hash, provider.model, JSON.stringify(raw));
+    console.log(`  ✓ Ad: ${result.ad.brand ?? "no brand"} [${result.tags.join(", ")}]`);
+
+    return result;
+  } catch (error) {
+    console.error(`  ❌ Ad metadata extraction failed: ${error}`);
+    return null;
+  }
+}
+
+/**
+ * Whether an entry's ad metadata should be (re-)extracted with `model`
+ */
+export function isAdMetadataStale(entry: ImageEntry, model: string): boolean {
+  if (!entry.ad) return true;
+  return entry.ad.model !== model || entry.ad.prompt_version !== AD_METADATA_PROMPT_VERSION;
+}
@@ -0,0 +1,96 @@
+import type { AltTextProvenance, ImageEntry } from "./manifest";
+import { parseJsonResponse, type VisionProvider } from "./vision";
+import { createResponseCache } from "./vision/cache";
+
+export const FALLBACK_ALT_TEXT = "An advertisement from San Francisco.";
+
+/**
+ * Bump whenever ALT_TEXT_PROMPT changes so `regenerate-alt-text` picks up
+ * entries written with the previous prompt
+ */
+export const ALT_TEXT_PROMPT_VERSION = 1;
+
+const ALT_TEXT_PROMPT = `This is a photo of an advertisement or billboard in San Francisco.
+
+Write a 1-2 sentence alt text description that:
+- Describes what the advertisement says or shows
+- Mentions the brand/company name if visible
+- Notes any distinctive visual elements
+
+Return JSON: {"alt_text": "..."}`;
+
+const cache = createResponseCache("alt-text", ALT_TEXT_PROMPT_VERSION, "txt");
+
+export interface AltTextResult {
+  text: string;
+  provenance: AltTextProvenance;
+}
+
+/**
+ * Describe an image with the vision provider (cached by original hash).
+ *
+ * Failures never throw: they return the placeholder text with a `fallback`
+ * status so they can be found and regenerated later.
+ */
+export async function generateAltText(
+  provider: VisionProvider,
+  imageBuffer: Buffer,
+  hash: string
+): Promise<AltTextResult> {
+  const generated = (text: string): AltTextResult => ({
+    text,
+    provenance: {
+      status: "generated",
+      model: provider.model,
+      prompt_version: ALT_TEXT_PROMPT_VERSION,
+    },
+  });
+
+  // Check cache first
+  const cached = cache.get(hash, provider.model);
+  if (cached) {
+    console.log(`  ✓ Alt (cached): ${cached.substring(0, 50)}...`);
+    return generated(cached);
+  }
+
+  console.log(`  🤖 Generating alt text (${provider.name}/${provider.model})...`);
+  try {
+    const content = await provider.complete({
+      image: imageBuffer,
+      prompt: ALT_TEXT_PROMPT,
+      maxTokens: 300,
+    });
+
+    const altText = parseJsonResponse(content).alt_text;
+    if (typeof altText !== "string" || !altText.trim()) {
+      throw new Error(`Response has no alt_text: ${content.substring(0, 100)}`);
+    }
+
+    // Cache the result
+    cache.set(hash, provider.model, altText);
+    console.log(`  ✓ Alt: ${altText.substring(0, 50)}...`);
+
+    return generated(altText);
+  } catch (error) {
+    console.error(`  ❌ Alt text generation failed: ${error}`);
+    return {
+      text: FALLBACK_ALT_TEXT,
+      provenance: {
+        status: "fallback",
+        model: null,
+        prompt_version: ALT_TEXT_PROMPT_VERSION,
+      },
+    };
+  }
+}
+
+/**
+ * Whether an entry's alt text should be regenerated with `model`.
+ * Human-edited alt text is never stale.
+ */
+export function isAltTextStale(entry: ImageEntry, model: string): boolean {
+  const provenance = entry.alt_text_provenance;
+  if (provenance.status === "human") return false;
+  if (provenance.status === "fallback") return true;
+  return provenance.model !== model || provenance.prompt_version !== ALT_TEXT_PROMPT_VERSION;
+}
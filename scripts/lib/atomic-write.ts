@@ -0,0 +1,26 @@
+import * as fs from "fs";
+import * as path from "path";
+
+const TEMP_SUFFIX = ".tmp";
+
+/**
+ * Write a file so that readers (and a crash) only ever see the old or the
+ * new content: write next to it, then rename over it.
+ */
+export function writeFileAtomic(filePath: string, data: string | Buffer): void {
+  const tempPath = `${filePath}.${process.pid}${TEMP_SUFFIX}`;
+  fs.writeFileSync(tempPath, data);
+  fs.renameSync(tempPath, filePath);
+}
+
+/**
+ * Delete temp files left behind by a writeFileAtomic that was interrupted
+ */
+export function removeStaleTempFiles(dir: string): number {
+  if (!fs.existsSync(dir)) return 0;
+  const stale = fs.readdirSync(dir).filter((name) => name.endsWith(TEMP_SUFFIX));
+  for (const name of stale) {
+    fs.unlinkSync(path.join(dir, name));
+  }
+  return stale.length;
+}
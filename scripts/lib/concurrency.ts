@@ -0,0 +1,47 @@
+/**
+ * Returns a function that runs at most `limit` tasks at once
+ */
+export function createLimiter(limit: number) {
+  let active = 0;
+  const queue: Array<() => void> = [];
+
+  return async function run<T>(task: () => Promise<T>): Promise<T> {
+    if (active >= limit) {
+      await new Promise<void>((resolve) => queue.push(resolve));
+    }
+    active++;
+    try {
+      return await task();
+    } finally {
+      active--;
+      queue.shift()?.();
+    }
+  };
+}
+
+/**
+ * Run `task` over `items` with at most `limit` in flight, handing results
+ * to `onResult` in input order. Tasks must not reject.
+ *
+ * Stops scheduling new items once `shouldStop` returns true; items already
+ * started still complete.
+ */
+export async function mapOrdered<T, R>(
+  items: T[],
+  limit: number,
+  task: (item: T) => Promise<R>,
+  onResult: (result: R, item: T) => void,
+  shouldStop: () => boolean = () => false
+): Promise<void> {
+  const inFlight: Array<{ item: T; promise: Promise<R> }> = [];
+  let next = 0;
+
+  while (inFlight.length > 0 || (next < items.length && !shouldStop())) {
+    while (inFlight.length < limit && next < items.length && !shouldStop()) {
+      const item = items[next++];
+      inFlight.push({ item, promise: task(item) });
+    }
+    const head = inFlight.shift()!;
+    onResult(await head.promise, head.item);
+  }
+}
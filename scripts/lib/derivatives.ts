@@ -0,0 +1,183 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import sharp from "sharp";
+import { writeFileAtomic } from "./atomic-write";
+import { getHeicDecoder } from "./heic";
+import type { ImageVariants, ThumbnailCrop } from "./manifest";
+import { PUBLIC_IMAGES_DIR } from "./paths";
+import {
+  FULL_VARIANT_WIDTHS,
+  THUMBNAIL_VARIANT_WIDTHS,
+  VARIANT_FORMATS,
+  getVariantFilename,
+  planVariantWidths,
+  type VariantFormat,
+  type VariantSet,
+} from "../../src/lib/variants";
+
+export interface DecodedOriginal {
+  /** JPEG bytes straight out of the decoder, EXIF intact */
+  converted: Buffer;
+  /** Auto-rotated JPEG; dimensions and crop boxes refer to this image */
+  image: Buffer;
+  width: number;
+  height: number;
+}
+
+/**
+ * Decode an original (HEIC or JPEG) into an upright JPEG buffer
+ */
+export async function decodeOriginal(sourcePath: string): Promise<DecodedOriginal> {
+  const ext = path.extname(sourcePath).toLowerCase();
+  let converted: Buffer;
+
+  if (ext === ".heic") {
+    const heicDecoder = getHeicDecoder();
+    console.log(`  🔄 Converting HEIC to JPEG (${heicDecoder.name})...`);
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "sf-ads-"));
+    try {
+      const tempJpegPath = path.join(tempDir, "converted.jpg");
+      await heicDecoder.convertToJpeg(sourcePath, tempJpegPath);
+      converted = fs.readFileSync(tempJpegPath);
+    } finally {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  } else {
+    // Read JPEG directly
+    converted = fs.readFileSync(sourcePath);
+  }
+
+  // Auto-rotate and get accurate dimensions
+  const image = await sharp(converted)
+    .rotate() // Auto-rotate based on EXIF
+    .jpeg({ quality: 95 })
+    .toBuffer();
+
+  const metadata = await sharp(image).metadata();
+  return { converted, image, width: metadata.width!, height: metadata.height! };
+}
+
+/**
+ * Kinds of embedded metadata (EXIF, XMP, IPTC) found in an image
+ */
+export async function findEmbeddedMetadata(input: Buffer | string): Promise<string[]> {
+  const metadata = await sharp(input).metadata();
+  const kinds: string[] = [];
+  if (metadata.exif) kinds.push("EXIF");
+  if (metadata.xmp) kinds.push("XMP");
+  if (metadata.iptc) kinds.push("IPTC");
+  return kinds;
+}
+
+/**
+ * Published files must never carry the camera's EXIF (GPS, serial numbers).
+ * sharp drops metadata unless told to keep it; this makes sure it stays so.
+ */
+async function assertNoMetadata(output: Buffer): Promise<Buffer> {
+  const kinds = await findEmbeddedMetadata(output);
+  if (kinds.length > 0) {
+    throw new Error(`Encoded derivative still contains ${kinds.join(", ")} metadata`);
+  }
+  return output;
+}
+
+/**
+ * Encode the full image (original aspect ratio), without metadata
+ */
+export async function encodeFullImage(image: Buffer): Promise<Buffer> {
+  return assertNoMetadata(await sharp(image).jpeg({ quality: 90 }).toBuffer());
+}
+
+/**
+ * Encode the square thumbnail cut out of the full image, without metadata
+ */
+export async function encodeThumbnail(image: Buffer, crop: ThumbnailCrop): Promise<Buffer> {
+  return assertNoMetadata(
+    await sharp(image)
+      .extract({ left: crop.left, top: crop.top, width: crop.size, height: crop.size })
+      .jpeg({ quality: 85 })
+      .toBuffer()
+  );
+}
+
+export interface EncodedVariant {
+  width: number;
+  format: VariantFormat;
+  data: Buffer;
+}
+
+/**
+ * Variant sets to generate for an image `width` pixels wide
+ */
+export function planImageVariants(width: number, crop: ThumbnailCrop): ImageVariants {
+  return {
+    full: { widths: planVariantWidths(width, FULL_VARIANT_WIDTHS), formats: [...VARIANT_FORMATS] },
+    thumbnail: {
+      widths: planVariantWidths(crop.size, THUMBNAIL_VARIANT_WIDTHS),
+      formats: [...VARIANT_FORMATS],
+    },
+  };
+}
+
+function encodeVariantSet(source: sharp.Sharp, set: VariantSet): Promise<EncodedVariant[]> {
+  return Promise.all(
+    set.formats.flatMap((format) =>
+      set.widths.map(async (width) => {
+        const resized = source.clone().resize({ width, withoutEnlargement: true });
+        const encoded =
+          format === "avif"
+            ? resized.avif({ quality: 50 })
+            : format === "webp"
+              ? resized.webp({ quality: 75 })
+              : resized.jpeg({ quality: 80, mozjpeg: true });
+        return { width, format, data: await assertNoMetadata(await encoded.toBuffer()) };
+      })
+    )
+  );
+}
+
+/**
+ * Encode the responsive versions of the full image, without metadata
+ */
+export function encodeFullVariants(image: Buffer, set: VariantSet): Promise<EncodedVariant[]> {
+  return encodeVariantSet(sharp(image), set);
+}
+
+/**
+ * Encode the responsive versions of the thumbnail, cut straight from the
+ * full image rather than from the already compressed thumbnail JPEG
+ */
+export function encodeThumbnailVariants(
+  image: Buffer,
+  crop: ThumbnailCrop,
+  set: VariantSet
+): Promise<EncodedVariant[]> {
+  return encodeVariantSet(
+    sharp(image).extract({ left: crop.left, top: crop.top, width: crop.size, height: crop.size }),
+    set
+  );
+}
+
+/**
+ * Save encoded variants of `filename` to public/images atomically.
+ * Returns the names of the files written.
+ */
+export function writeVariants(filename: string, variants: EncodedVariant[]): string[] {
+  return variants.map(({ width, format, data }) => {
+    const file = getVariantFilename(filename, width, format);
+    writeFileAtomic(path.join(PUBLIC_IMAGES_DIR, file), data);
+    return file;
+  });
+}
+
+/**
+ * Encode and save the thumbnail, replacing any previous one atomically
+ */
+export async function writeThumbnail(
+  image: Buffer,
+  crop: ThumbnailCrop,
+  outputPath: string
+): Promise<void> {
+  writeFileAtomic(outputPath, await encodeThumbnail(image, crop));
+}
@@ -0,0 +1,139 @@
+import exifr from "exifr";
+import { find as findTimezone } from "geo-tz";
+import type { ImageLocation } from "../../src/lib/types";
+
+export type { ImageLocation };
+
+export interface ExifMetadata {
+  takenAt: Date | null;
+  /**
+   * Local date and time as written by the camera (`YYYY:MM:DD HH:MM:SS`),
+   * for when takenAt could not be resolved for lack of an offset or GPS
+   */
+  wallClock: string | null;
+  location: ImageLocation | null;
+}
+
+/**
+ * Offset in minutes between UTC and the wall clock of `timezone` at `date`
+ */
+function getTimezoneOffset(date: Date, timezone: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: timezone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+    hour12: false,
+  }).formatToParts(date);
+  const getPart = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((p) => p.type === type)?.value);
+
+  const asUtc = Date.UTC(
+    getPart("year"),
+    getPart("month") - 1,
+    getPart("day"),
+    getPart("hour") % 24,
+    getPart("minute"),
+    getPart("second")
+  );
+  return (asUtc - date.getTime()) / 60000;
+}
+
+const EXIF_DATE_PATTERN = /^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/;
+
+/**
+ * Parse an EXIF "YYYY:MM:DD HH:MM:SS" timestamp into an absolute instant.
+ *
+ * EXIF stores wall-clock time. Use the offset tag when the camera wrote one,
+ * otherwise resolve it in the timezone of the GPS location. Never depends on
+ * the timezone of the machine running the import.
+ */
+export function parseExifDate(
+  raw: string | undefined,
+  offset: string | undefined,
+  location: ImageLocation | null
+): Date | null {
+  const match = raw?.match(EXIF_DATE_PATTERN);
+  if (!raw || !match) return null;
+
+  if (offset && /^[+-]\d{2}:\d{2}$/.test(offset)) {
+    const iso = match.slice(1, 4).join("-") + "T" + match.slice(4, 7).join(":");
+    return new Date(`${iso}${offset}`);
+  }
+
+  const timezone = location ? findTimezone(location.lat, location.lng)[0] : undefined;
+  if (!timezone) return null;
+
+  return parseExifDateInTimezone(raw, timezone);
+}
+
+/**
+ * Resolve an EXIF "YYYY:MM:DD HH:MM:SS" wall-clock time in `timezone`
+ */
+export function parseExifDateInTimezone(raw: string, timezone: string): Date | null {
+  const match = raw.match(EXIF_DATE_PATTERN);
+  if (!match) return null;
+  const [, year, month, day, hours, minutes, seconds] = match.map(Number);
+
+  const wallClock = Date.UTC(year, month - 1, day, hours, minutes, seconds);
+  // Two passes handle the case where the guess lands across a DST change
+  let utc = wallClock - getTimezoneOffset(new Date(wallClock), timezone) * 60000;
+  utc = wallClock - getTimezoneOffset(new Date(utc), timezone) * 60000;
+  return new Date(utc);
+}
+
+/**
+ * Build a signed location from raw (non-revived) exifr GPS tags
+ */
+export function parseExifLocation(
+  exif: Record<string, unknown> | undefined
+): ImageLocation | null {
+  const lat = exif?.GPSLatitude;
+  const lng = exif?.GPSLongitude;
+  if (!Array.isArray(lat) || !Array.isArray(lng)) return null;
+
+  const toDecimal = ([degrees, minutes, seconds]: number[]) =>
+    degrees + minutes / 60 + seconds / 3600;
+
+  return {
+    lat: toDecimal(lat) * (exif?.GPSLatitudeRef === "S" ? -1 : 1),
+    lng: toDecimal(lng) * (exif?.GPSLongitudeRef === "W" ? -1 : 1),
+  };
+}
+
+/**
+ * Read date and GPS location with exifr.
+ *
+ * Accepts a file path, a JPEG buffer or a raw TIFF block (as extracted from
+ * a HEIC container).
+ */
+export async function readExifMetadata(source: string | Buffer): Promise<ExifMetadata> {
+  try {
+    const exif = await exifr.parse(source, {
+      pick: [
+        "DateTimeOriginal",
+        "CreateDate",
+        "OffsetTimeOriginal",
+        "OffsetTime",
+        "GPSLatitude",
+        "GPSLatitudeRef",
+        "GPSLongitude",
+        "GPSLongitudeRef",
+      ],
+      reviveValues: false,
+    });
+
+    const location = parseExifLocation(exif);
+    const takenAt =
+      parseExifDate(exif?.DateTimeOriginal, exif?.OffsetTimeOriginal, location) ??
+      parseExifDate(exif?.CreateDate, exif?.OffsetTime, location);
+    const wallClock = exif?.DateTimeOriginal ?? exif?.CreateDate;
+
+    return { takenAt, wallClock: typeof wallClock === "string" ? wallClock : null, location };
+  } catch {
+    return { takenAt: null, wallClock: null, location: null };
+  }
+}
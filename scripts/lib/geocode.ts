@@ -0,0 +1,158 @@
+import * as fs from "fs";
+import type { ImageLocation, Place } from "./manifest";
+import { NEIGHBORHOODS_GEOJSON_PATH, STREETS_GEOJSON_PATH } from "./paths";
+
+/**
+ * Streets further than this from the location are not used in its label
+ */
+export const STREET_RADIUS_METERS = 60;
+
+const METERS_PER_DEGREE = 111_320;
+
+/** GeoJSON position: [lng, lat] */
+type Position = [number, number];
+
+/**
+ * The subset of GeoJSON written by `pnpm fetch-geodata`: every feature has
+ * a `name` property
+ */
+interface NamedFeatureCollection<G> {
+  type: "FeatureCollection";
+  features: Array<{ type: "Feature"; properties: { name: string }; geometry: G }>;
+}
+
+type AreaGeometry =
+  | { type: "Polygon"; coordinates: Position[][] }
+  | { type: "MultiPolygon"; coordinates: Position[][][] };
+
+type LineGeometry =
+  | { type: "LineString"; coordinates: Position[] }
+  | { type: "MultiLineString"; coordinates: Position[][] };
+
+export interface Geocoder {
+  /** Neighborhood and nearest street of a (published) location */
+  reverse(location: ImageLocation): Place;
+}
+
+/**
+ * Ray casting point-in-ring test, on GeoJSON [lng, lat] rings
+ */
+function isInsideRing(location: ImageLocation, ring: Position[]): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [lngI, latI] = ring[i];
+    const [lngJ, latJ] = ring[j];
+    if (
+      latI > location.lat !== latJ > location.lat &&
+      location.lng < ((lngJ - lngI) * (location.lat - latI)) / (latJ - latI) + lngI
+    ) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * The first ring of a polygon is its outline, the others are holes
+ */
+function isInsideArea(location: ImageLocation, geometry: AreaGeometry): boolean {
+  const polygons = geometry.type === "Polygon" ? [geometry.coordinates] : geometry.coordinates;
+  return polygons.some(
+    ([outline, ...holes]) =>
+      isInsideRing(location, outline) && !holes.some((hole) => isInsideRing(location, hole))
+  );
+}
+
+/**
+ * Distance in meters from a location to a polyline. Uses a flat projection
+ * around the location, which is accurate enough at street scale.
+ */
+function distanceToLine(location: ImageLocation, line: Position[]): number {
+  const lngScale = Math.cos((location.lat * Math.PI) / 180);
+  const project = ([lng, lat]: Position) => [
+    (lng - location.lng) * lngScale * METERS_PER_DEGREE,
+    (lat - location.lat) * METERS_PER_DEGREE,
+  ];
+
+  let best = Infinity;
+  for (let i = 1; i < line.length; i++) {
+    const [ax, ay] = project(line[i - 1]);
+    const [bx, by] = project(line[i]);
+    const dx = bx - ax;
+    const dy = by - ay;
+    const lengthSquared = dx * dx + dy * dy;
+    // Closest point of the segment to the origin (the location)
+    const t =
+      lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, -(ax * dx + ay * dy) / lengthSquared));
+    best = Math.min(best, Math.hypot(ax + t * dx, ay + t * dy));
+  }
+  return best;
+}
+
+function readFeatureCollection<G>(filePath: string): NamedFeatureCollection<G> {
+  const json = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+  if (json?.type !== "FeatureCollection" || !Array.isArray(json.features)) {
+    throw new Error(`${filePath} is not a GeoJSON FeatureCollection`);
+  }
+  return json;
+}
+
+/**
+ * Build a geocoder from the bundled datasets.
+ * Returns null when they have not been fetched yet (`pnpm fetch-geodata`).
+ */
+export function loadGeocoder(): Geocoder | null {
+  if (!fs.existsSync(NEIGHBORHOODS_GEOJSON_PATH) || !fs.existsSync(STREETS_GEOJSON_PATH)) {
+    return null;
+  }
+
+  const neighborhoods = readFeatureCollection<AreaGeometry>(NEIGHBORHOODS_GEOJSON_PATH).features;
+  const streets = readFeatureCollection<LineGeometry>(STREETS_GEOJSON_PATH).features.map(
+    (feature) => ({
+      name: feature.properties.name,
+      lines:
+        feature.geometry.type === "LineString"
+          ? [feature.geometry.coordinates]
+          : feature.geometry.coordinates,
+    })
+  );
+
+  return {
+    reverse(location) {
+      const neighborhood =
+        neighborhoods.find((feature) => isInsideArea(location, feature.geometry))?.properties
+          .name ?? null;
+
+      // Closest distance to each street name within the radius
+      const nearby = new Map<string, number>();
+      for (const street of streets) {
+        for (const line of street.lines) {
+          const distance = distanceToLine(location, line);
+          if (distance <= STREET_RADIUS_METERS && distance < (nearby.get(street.name) ?? Infinity)) {
+            nearby.set(street.name, distance);
+          }
+        }
+      }
+
+      // The two nearest streets, which near a corner name the intersection
+      const closest = [...nearby]
+        .sort((a, b) => a[1] - b[1])
+        .slice(0, 2)
+        .map(([name]) => name);
+
+      return { neighborhood, street: closest.length > 0 ? closest.join(" & ") : null };
+    },
+  };
+}
+
+/**
+ * Place of a published location: empty when the location is hidden, null
+ * when there is no geocoder to resolve it with
+ */
+export function geocodeLocation(
+  geocoder: Geocoder | null,
+  location: ImageLocation | null
+): Place | null {
+  if (!geocoder) return null;
+  return location ? geocoder.reverse(location) : { neighborhood: null, street: null };
+}
@@ -0,0 +1,8 @@
+import * as fs from "fs";
+import * as crypto from "crypto";
+
+export async function computeFileHash(filePath: string): Promise<string> {
+  const fileBuffer = fs.readFileSync(filePath);
+  const hash = crypto.createHash("sha256").update(fileBuffer).digest("hex");
+  return `sha256:${hash}`;
+}
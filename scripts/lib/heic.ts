@@ -0,0 +1,282 @@
+import * as fs from "fs";
+import { execSync } from "child_process";
+import convert from "heic-convert";
+import { readExifMetadata, type ExifMetadata, type ImageLocation } from "./exif";
+
+export type HeicMetadata = ExifMetadata;
+
+/**
+ * A way of reading and decoding HEIC files.
+ *
+ * - `macos`: converts with the native `sips` tool (fast, macOS only) and
+ *   falls back to `mdls` for metadata missing from the EXIF block
+ * - `portable`: pure JS/WASM, works on every OS
+ */
+export interface HeicDecoder {
+  name: "macos" | "portable";
+  extractMetadata(filePath: string): Promise<HeicMetadata>;
+  convertToJpeg(inputPath: string, outputPath: string): Promise<void>;
+}
+
+/**
+ * Convert DMS (degrees, minutes, seconds) to decimal degrees
+ */
+function dmsToDecimal(dmsString: string): number {
+  // Handle both formats: "37,48,17.44" (DMS) and "37.8043" (decimal)
+  if (dmsString.includes(',')) {
+    // DMS format: degrees,minutes,seconds
+    const parts = dmsString.split(',').map(p => parseFloat(p.trim()));
+    if (parts.length === 3) {
+      const [degrees, minutes, seconds] = parts;
+      return degrees + (minutes / 60) + (seconds / 3600);
+    }
+  }
+  // Decimal format or fallback
+  return parseFloat(dmsString);
+}
+
+/**
+ * Extract EXIF from HEIC using macOS mdls command
+ */
+function extractHeicExifViaMdls(filePath: string): HeicMetadata {
+  try {
+    const output = execSync(
+      `mdls -name kMDItemContentCreationDate -name kMDItemLatitude -name kMDItemLongitude "${filePath}"`,
+      { encoding: "utf-8" }
+    );
+
+    let takenAt: Date | null = null;
+    let location: ImageLocation | null = null;
+
+    const dateMatch = output.match(/kMDItemContentCreationDate\s*=\s*(.+)/);
+    if (dateMatch && !dateMatch[1].includes("null")) {
+      takenAt = new Date(dateMatch[1].trim());
+    }
+
+    const latMatch = output.match(/kMDItemLatitude\s*=\s*([^\s]+)/);
+    const lngMatch = output.match(/kMDItemLongitude\s*=\s*([^\s]+)/);
+    if (latMatch && lngMatch) {
+      location = {
+        lat: dmsToDecimal(latMatch[1]),
+        lng: dmsToDecimal(lngMatch[1]),
+      };
+    }
+
+    return { takenAt, wallClock: null, location };
+  } catch {
+    return { takenAt: null, wallClock: null, location: null };
+  }
+}
+
+/**
+ * Convert HEIC to JPEG using macOS sips command (has native HEIC support)
+ */
+function convertHeicToJpegViaSips(inputPath: string, outputPath: string): void {
+  execSync(`sips -s format jpeg "${inputPath}" --out "${outputPath}"`, {
+    stdio: "pipe",
+  });
+}
+
+interface Box {
+  type: string;
+  start: number; // first byte of the payload
+  end: number;
+}
+
+function readBoxes(buffer: Buffer, start: number, end: number): Box[] {
+  const boxes: Box[] = [];
+  let offset = start;
+  while (offset + 8 <= end) {
+    let size = buffer.readUInt32BE(offset);
+    const type = buffer.toString("latin1", offset + 4, offset + 8);
+    let headerSize = 8;
+    if (size === 1) {
+      size = Number(buffer.readBigUInt64BE(offset + 8));
+      headerSize = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < headerSize || offset + size > end) break;
+    boxes.push({ type, start: offset + headerSize, end: offset + size });
+    offset += size;
+  }
+  return boxes;
+}
+
+function readUIntN(buffer: Buffer, offset: number, bytes: number): number {
+  switch (bytes) {
+    case 0:
+      return 0;
+    case 4:
+      return buffer.readUInt32BE(offset);
+    case 8:
+      return Number(buffer.readBigUInt64BE(offset));
+    default:
+      throw new Error(`Unsupported iloc field size: ${bytes}`);
+  }
+}
+
+/**
+ * Locate the Exif item inside a HEIC container and return its TIFF payload.
+ *
+ * exifr has HEIC support, but rejects files whose `ftyp` box is longer than
+ * 50 bytes, which is the case for photos from recent iPhones. Walking
+ * meta → iinf/iloc ourselves only takes a few lines.
+ */
+function extractHeicExifBlock(buffer: Buffer): Buffer | null {
+  const meta = readBoxes(buffer, 0, buffer.length).find((b) => b.type === "meta");
+  if (!meta) return null;
+
+  // meta is a full box: skip version + flags
+  const metaChildren = readBoxes(buffer, meta.start + 4, meta.end);
+  const iinf = metaChildren.find((b) => b.type === "iinf");
+  const iloc = metaChildren.find((b) => b.type === "iloc");
+  if (!iinf || !iloc) return null;
+
+  // Find the item id of the Exif item
+  const iinfVersion = buffer.readUInt8(iinf.start);
+  const entriesStart = iinf.start + 4 + (iinfVersion === 0 ? 2 : 4);
+  let exifItemId: number | null = null;
+  for (const infe of readBoxes(buffer, entriesStart, iinf.end)) {
+    if (infe.type !== "infe") continue;
+    const version = buffer.readUInt8(infe.start);
+    if (version < 2) continue;
+    const itemId =
+      version === 2 ? buffer.readUInt16BE(infe.start + 4) : buffer.readUInt32BE(infe.start + 4);
+    const typeOffset = infe.start + 4 + (version === 2 ? 2 : 4) + 2;
+    if (buffer.toString("latin1", typeOffset, typeOffset + 4) === "Exif") {
+      exifItemId = itemId;
+      break;
+    }
+  }
+  if (exifItemId === null) return null;
+
+  // Find where that item is stored
+  const ilocVersion = buffer.readUInt8(iloc.start);
+  let offset = iloc.start + 4;
+  const sizes = buffer.readUInt16BE(offset);
+  offset += 2;
+  const offsetSize = (sizes >> 12) & 0xf;
+  const lengthSize = (sizes >> 8) & 0xf;
+  const baseOffsetSize = (sizes >> 4) & 0xf;
+  const indexSize = ilocVersion === 1 || ilocVersion === 2 ? sizes & 0xf : 0;
+  const itemCount = ilocVersion < 2 ? buffer.readUInt16BE(offset) : buffer.readUInt32BE(offset);
+  offset += ilocVersion < 2 ? 2 : 4;
+
+  for (let i = 0; i < itemCount; i++) {
+    const itemId = ilocVersion < 2 ? buffer.readUInt16BE(offset) : buffer.readUInt32BE(offset);
+    offset += ilocVersion < 2 ? 2 : 4;
+    if (ilocVersion === 1 || ilocVersion === 2) offset += 2; // construction_method
+    offset += 2; // data_reference_index
+    const baseOffset = readUIntN(buffer, offset, baseOffsetSize);
+    offset += baseOffsetSize;
+    const extentCount = buffer.readUInt16BE(offset);
+    offset += 2;
+
+    const extents: Array<[number, number]> = [];
+    for (let e = 0; e < extentCount; e++) {
+      offset += indexSize;
+      const extentOffset = readUIntN(buffer, offset, offsetSize);
+      offset += offsetSize;
+      const extentLength = readUIntN(buffer, offset, lengthSize);
+      offset += lengthSize;
+      extents.push([extentOffset, extentLength]);
+    }
+
+    if (itemId !== exifItemId) continue;
+
+    const item = Buffer.concat(
+      extents.map(([start, length]) =>
+        buffer.subarray(baseOffset + start, baseOffset + start + length)
+      )
+    );
+    // Payload starts with a 4-byte offset to the TIFF header
+    const tiffOffset = 4 + item.readUInt32BE(0);
+    return item.subarray(tiffOffset);
+  }
+
+  return null;
+}
+
+/**
+ * Read date and GPS from a HEIC file without any native tools
+ */
+async function extractHeicExifViaExifr(filePath: string): Promise<HeicMetadata> {
+  const exifBlock = extractHeicExifBlock(fs.readFileSync(filePath));
+  if (!exifBlock) {
+    return { takenAt: null, wallClock: null, location: null };
+  }
+  return readExifMetadata(exifBlock);
+}
+
+function commandExists(command: string): boolean {
+  try {
+    execSync(`command -v ${command}`, { stdio: "ignore" });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const macosDecoder: HeicDecoder = {
+  name: "macos",
+  async extractMetadata(filePath) {
+    // Prefer the EXIF block so every OS produces identical values; mdls
+    // rounds coordinates differently
+    const exifData = await extractHeicExifViaExifr(filePath);
+    if (exifData.takenAt && exifData.location) {
+      return exifData;
+    }
+    const mdlsData = extractHeicExifViaMdls(filePath);
+    return {
+      takenAt: exifData.takenAt ?? mdlsData.takenAt,
+      wallClock: exifData.wallClock,
+      location: exifData.location ?? mdlsData.location,
+    };
+  },
+  async convertToJpeg(inputPath, outputPath) {
+    convertHeicToJpegViaSips(inputPath, outputPath);
+  },
+};
+
+const portableDecoder: HeicDecoder = {
+  name: "portable",
+  extractMetadata: extractHeicExifViaExifr,
+  async convertToJpeg(inputPath, outputPath) {
+    const output = await convert({
+      buffer: fs.readFileSync(inputPath),
+      format: "JPEG",
+      quality: 1,
+    });
+    fs.writeFileSync(outputPath, output);
+  },
+};
+
+let detectedDecoder: HeicDecoder | null = null;
+
+/**
+ * Pick the HEIC decoder for this machine.
+ *
+ * Uses the macOS tools when available, the portable decoder otherwise.
+ * Set HEIC_DECODER=macos|portable to force one.
+ */
+export function getHeicDecoder(): HeicDecoder {
+  if (detectedDecoder) return detectedDecoder;
+
+  const forced = process.env.HEIC_DECODER;
+  if (forced === "portable") {
+    detectedDecoder = portableDecoder;
+  } else if (forced === "macos") {
+    detectedDecoder = macosDecoder;
+  } else if (
+    process.platform === "darwin" &&
+    commandExists("mdls") &&
+    commandExists("sips")
+  ) {
+    detectedDecoder = macosDecoder;
+  } else {
+    detectedDecoder = portableDecoder;
+  }
+
+  return detectedDecoder;
+}
@@ -0,0 +1,140 @@
+import * as fs from "fs";
+import * as path from "path";
+import { find as findTimezone } from "geo-tz";
+import {
+  parseExifDateInTimezone,
+  readExifMetadata,
+  type ExifMetadata,
+  type ImageLocation,
+} from "./exif";
+import { getHeicDecoder } from "./heic";
+import { inferLocation, type LocatedShot, type UnlocatedShot } from "./location-inference";
+import type { LocationSource, TakenAtSource } from "./manifest";
+import type { ImageOverride } from "./overrides";
+import { readSidecars } from "./sidecars";
+
+export interface CaptureMetadata {
+  takenAt: Date;
+  takenAtSource: TakenAtSource;
+  /** Raw GPS location, before the privacy policy is applied */
+  location: ImageLocation;
+  locationSource: LocationSource;
+  timezone: string;
+  /** Set by an override, null otherwise */
+  description: string | null;
+  /** Sidecar files that were found, to be archived with the original */
+  sidecars: string[];
+}
+
+/**
+ * Date and GPS embedded in the original
+ */
+async function readEmbeddedMetadata(
+  filePath: string,
+  convertedJpeg?: Buffer
+): Promise<ExifMetadata> {
+  const ext = path.extname(filePath).toLowerCase();
+  let metadata: ExifMetadata = { takenAt: null, wallClock: null, location: null };
+
+  // For HEIC files, read the container metadata first (mdls on macOS)
+  if (ext === ".heic") {
+    metadata = await getHeicDecoder().extractMetadata(filePath);
+  }
+
+  // Try exifr on original file or converted JPEG
+  if (!metadata.takenAt || !metadata.location) {
+    const exifData = await readExifMetadata(convertedJpeg || filePath);
+    metadata = {
+      takenAt: metadata.takenAt ?? exifData.takenAt,
+      wallClock: metadata.wallClock ?? exifData.wallClock,
+      location: metadata.location ?? exifData.location,
+    };
+  }
+
+  return metadata;
+}
+
+/**
+ * Capture time, raw GPS location and timezone of an original.
+ *
+ * Each value comes from the first source that has it: the override, an XMP
+ * sidecar (edits made in a photo manager), the file's own EXIF, then a
+ * Google Takeout JSON sidecar. When none of them has a location it is
+ * inferred from `inference.references` if given, otherwise this throws.
+ */
+export async function resolveCaptureMetadata(
+  filePath: string,
+  options: {
+    convertedJpeg?: Buffer;
+    override?: ImageOverride;
+    inference?: { references: LocatedShot[]; windowMinutes: number };
+  } = {}
+): Promise<CaptureMetadata> {
+  const { override } = options;
+  const embedded = await readEmbeddedMetadata(filePath, options.convertedJpeg);
+  const sidecars = await readSidecars(filePath);
+
+  const locations: Array<[LocationSource, ImageLocation | null | undefined]> = [
+    ["override", override?.location],
+    ["xmp", sidecars.xmp?.location],
+    ["exif", embedded.location],
+    ["takeout", sidecars.takeout?.location],
+  ];
+  let [locationSource, location] = locations.find(([, value]) => value) ?? [];
+
+  if (!location && options.inference) {
+    // Capture time from the first source that has one
+    const shots: Array<UnlocatedShot | null> = [
+      { takenAt: override?.taken_at ? new Date(override.taken_at) : null, wallClock: null },
+      sidecars.xmp,
+      embedded,
+      sidecars.takeout,
+    ];
+    const dated = shots.find((shot) => shot?.takenAt || shot?.wallClock);
+    if (dated) {
+      location = inferLocation(dated, options.inference.references, options.inference.windowMinutes);
+      locationSource = "inferred";
+    }
+  }
+
+  // GPS location is required
+  if (!locationSource || !location) {
+    throw new Error(
+      `No GPS coordinates found in ${path.basename(filePath)} or its sidecars${options.inference ? ", and no located shot close enough in time" : ""} (set one in overrides.yaml)`
+    );
+  }
+
+  // Lookup timezone from GPS coordinates
+  const timezone = override?.timezone ?? findTimezone(location.lat, location.lng)[0];
+  if (!timezone) {
+    throw new Error(`Could not determine timezone for coordinates ${location.lat}, ${location.lng}`);
+  }
+
+  // Wall-clock times without an offset are resolved in the final timezone
+  const resolveDate = (metadata: ExifMetadata | null) =>
+    metadata?.takenAt ??
+    (metadata?.wallClock ? parseExifDateInTimezone(metadata.wallClock, timezone) : null);
+  const dates: Array<[TakenAtSource, Date | null]> = [
+    ["override", override?.taken_at ? new Date(override.taken_at) : null],
+    ["xmp", resolveDate(sidecars.xmp)],
+    ["exif", resolveDate(embedded)],
+    ["takeout", resolveDate(sidecars.takeout)],
+  ];
+  let [takenAtSource, takenAt] = dates.find(([, value]) => value) ?? [];
+
+  // Final fallback for date
+  if (!takenAtSource || !takenAt) {
+    takenAt = fs.statSync(filePath).mtime;
+    takenAtSource = "file_mtime";
+  }
+
+  return {
+    takenAt,
+    takenAtSource,
+    location,
+    locationSource,
+    timezone,
+    description: override?.description ?? null,
+    sidecars: sidecars.files,
+  };
+}
@@ -0,0 +1,82 @@
+import { parseExifDateInTimezone, type ImageLocation } from "./exif";
+import type { ImageEntry } from "./manifest";
+
+/**
+ * Default largest gap between a photo without GPS and the shots its
+ * location is inferred from
+ */
+export const DEFAULT_INFERENCE_WINDOW_MINUTES = 10;
+
+/**
+ * A photo with a known location, usable as a reference
+ */
+export interface LocatedShot {
+  takenAt: Date;
+  location: ImageLocation;
+  timezone: string;
+}
+
+/**
+ * Capture time of the photo to locate. Without an offset only the wall
+ * clock is known, and it is compared in the timezone of each reference.
+ */
+export interface UnlocatedShot {
+  takenAt: Date | null;
+  wallClock: string | null;
+}
+
+/**
+ * References from the manifest. Their locations are the published ones
+ * (fuzzed or snapped), which is precise enough for an estimate. Inferred
+ * entries are left out so guesses are never chained.
+ */
+export function getManifestShots(images: ImageEntry[]): LocatedShot[] {
+  return images.flatMap((img) =>
+    img.location && img.location_source !== "inferred"
+      ? [{ takenAt: new Date(img.taken_at), location: img.location, timezone: img.timezone }]
+      : []
+  );
+}
+
+function captureTime(shot: UnlocatedShot, timezone: string): Date | null {
+  return (
+    shot.takenAt ?? (shot.wallClock ? parseExifDateInTimezone(shot.wallClock, timezone) : null)
+  );
+}
+
+/**
+ * Estimate where a photo was taken from the shots just before and after it.
+ *
+ * With a reference on each side within the window the location is
+ * interpolated linearly in time (walking between the two); with only one,
+ * it is copied. Returns null when nothing is close enough.
+ */
+export function inferLocation(
+  shot: UnlocatedShot,
+  references: LocatedShot[],
+  windowMinutes: number
+): ImageLocation | null {
+  const windowMs = windowMinutes * 60_000;
+  let before: { ref: LocatedShot; gap: number } | null = null;
+  let after: { ref: LocatedShot; gap: number } | null = null;
+
+  for (const ref of references) {
+    const time = captureTime(shot, ref.timezone);
+    if (!time) continue;
+    const gap = time.getTime() - ref.takenAt.getTime();
+    if (Math.abs(gap) > windowMs) continue;
+    if (gap >= 0 && (!before || gap < before.gap)) before = { ref, gap };
+    if (gap < 0 && (!after || -gap < after.gap)) after = { ref, gap: -gap };
+  }
+
+  if (before && after) {
+    const fraction = before.gap / (before.gap + after.gap);
+    const from = before.ref.location;
+    const to = after.ref.location;
+    return {
+      lat: from.lat + (to.lat - from.lat) * fraction,
+      lng: from.lng + (to.lng - from.lng) * fraction,
+    };
+  }
+  return (before ?? after)?.ref.location ?? null;
+}
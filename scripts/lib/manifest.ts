@@ -0,0 +1,43 @@
+import * as fs from "fs";
+import YAML from "yaml";
+import { parseImagesYaml } from "../../src/lib/schema";
+import type { ImagesYaml } from "../../src/lib/types";
+import { writeFileAtomic } from "./atomic-write";
+import { IMAGES_YAML_PATH } from "./paths";
+
+export type {
+  AdMetadata,
+  AltTextProvenance,
+  ImageEntry,
+  ImageLocation,
+  ImagePlaceholder,
+  ImageVariants,
+  ImagesYaml,
+  LocationPrivacy,
+  LocationSource,
+  Place,
+  TakenAtSource,
+  ThumbnailCrop,
+  ThumbnailCropStrategy,
+} from "../../src/lib/types";
+
+export async function loadImagesYaml(): Promise<ImagesYaml> {
+  if (!fs.existsSync(IMAGES_YAML_PATH)) {
+    return { images: [] };
+  }
+
+  const content = fs.readFileSync(IMAGES_YAML_PATH, "utf-8");
+  return parseImagesYaml(content, IMAGES_YAML_PATH);
+}
+
+export function saveImagesYaml(data: ImagesYaml): void {
+  // Sort by taken_at descending (newest first)
+  data.images.sort(
+    (a, b) => new Date(b.taken_at).getTime() - new Date(a.taken_at).getTime()
+  );
+
+  const yamlContent = YAML.stringify(data, {
+    lineWidth: 0,
+  });
+  writeFileAtomic(IMAGES_YAML_PATH, yamlContent);
+}
@@ -0,0 +1,64 @@
+import * as fs from "fs";
+import YAML from "yaml";
+import { z } from "zod";
+import { imageLocationSchema } from "../../src/lib/schema";
+import { OVERRIDES_YAML_PATH } from "./paths";
+
+/**
+ * Corrections for one original, applied on top of whatever its EXIF and
+ * sidecars say
+ */
+const imageOverrideSchema = z
+  .object({
+    /** Capture time with an offset, e.g. `2024-06-01T18:30:00-07:00` */
+    taken_at: z.string().datetime({ offset: true }).optional(),
+    location: imageLocationSchema.optional(),
+    /** IANA timezone, e.g. `America/Los_Angeles` */
+    timezone: z
+      .string()
+      .refine(isValidTimezone, { message: "not a known IANA timezone" })
+      .optional(),
+    description: z.string().optional(),
+  })
+  .strict();
+
+/** Overrides keyed by original filename (`original_path` in images.yaml) */
+const overridesYamlSchema = z.record(z.string().min(1), imageOverrideSchema);
+
+export type ImageOverride = z.infer<typeof imageOverrideSchema>;
+
+export type Overrides = z.infer<typeof overridesYamlSchema>;
+
+function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Load src/data/overrides.yaml. A missing or empty file means no overrides.
+ */
+export function loadOverrides(filePath = OVERRIDES_YAML_PATH): Overrides {
+  if (!fs.existsSync(filePath)) {
+    return {};
+  }
+
+  let raw: unknown;
+  try {
+    raw = YAML.parse(fs.readFileSync(filePath, "utf-8")) ?? {};
+  } catch (error) {
+    throw new Error(`Invalid ${filePath}: not valid YAML: ${error}`);
+  }
+
+  const result = overridesYamlSchema.safeParse(raw);
+  if (!result.success) {
+    const problems = result.error.issues.map(
+      (issue) => `  - ${issue.path.join(".") || "document"}: ${issue.message}`
+    );
+    throw new Error(`Invalid ${filePath}:\n${problems.join("\n")}`);
+  }
+  return result.data;
+}
@@ -0,0 +1,11 @@
+import * as path from "path";
+
+export const PUBLIC_IMAGES_DIR = path.join(process.cwd(), "public/images");
+export const ORIGINALS_DIR = path.join(process.cwd(), "originals");
+export const IMAGES_YAML_PATH = path.join(process.cwd(), "src/data/images.yaml");
+export const OVERRIDES_YAML_PATH = path.join(process.cwd(), "src/data/overrides.yaml");
+export const GEODATA_DIR = path.join(process.cwd(), "src/data/geo");
+export const NEIGHBORHOODS_GEOJSON_PATH = path.join(GEODATA_DIR, "neighborhoods.geojson");
+export const STREETS_GEOJSON_PATH = path.join(GEODATA_DIR, "streets.geojson");
+export const CACHE_DIR = path.join(process.cwd(), ".cache");
+export const STATIC_EXPORT_DIR = path.join(process.cwd(), "out");
@@ -0,0 +1,88 @@
+import sharp from "sharp";
+import type { ImageEntry } from "./manifest";
+
+/**
+ * Hamming distance (out of 64 bits) under which two photos are considered
+ * shots of the same ad
+ */
+export const DEFAULT_NEAR_DUPLICATE_THRESHOLD = 6;
+
+const HASH_PREFIX = "dhash:";
+
+/**
+ * 64-bit difference hash: shrink to 9x8 grayscale and record whether each
+ * pixel is brighter than its right neighbour. Survives re-encoding,
+ * resizing and small exposure changes, unlike the file's sha256.
+ */
+export async function computePerceptualHash(image: Buffer): Promise<string> {
+  const pixels = await sharp(image)
+    .grayscale()
+    .resize(9, 8, { fit: "fill" })
+    .raw()
+    .toBuffer();
+
+  // One hex digit per 4 comparisons, row by row
+  let hex = "";
+  for (let i = 0; i < 64; i += 4) {
+    let nibble = 0;
+    for (let bit = i; bit < i + 4; bit++) {
+      const offset = Math.floor(bit / 8) * 9 + (bit % 8);
+      nibble = (nibble << 1) | (pixels[offset] > pixels[offset + 1] ? 1 : 0);
+    }
+    hex += nibble.toString(16);
+  }
+  return HASH_PREFIX + hex;
+}
+
+export function hammingDistance(a: string, b: string): number {
+  let count = 0;
+  for (let i = HASH_PREFIX.length; i < a.length; i++) {
+    let diff = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (diff > 0) {
+      count += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return count;
+}
+
+/**
+ * Entries that look like the same shot, closest first
+ */
+export function findNearDuplicates(
+  hash: string,
+  images: ImageEntry[],
+  threshold: number
+): Array<{ entry: ImageEntry; distance: number }> {
+  return images
+    .map((entry) => ({ entry, distance: hammingDistance(hash, entry.perceptual_hash) }))
+    .filter(({ distance }) => distance <= threshold)
+    .sort((a, b) => a.distance - b.distance);
+}
+
+/**
+ * Group entries into clusters of near-duplicates (transitively: if A~B and
+ * B~C, all three end up together). Singletons are left out.
+ */
+export function clusterNearDuplicates(images: ImageEntry[], threshold: number): ImageEntry[][] {
+  const parent = images.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+
+  for (let i = 0; i < images.length; i++) {
+    for (let j = i + 1; j < images.length; j++) {
+      if (hammingDistance(images[i].perceptual_hash, images[j].perceptual_hash) <= threshold) {
+        parent[find(j)] = find(i);
+      }
+    }
+  }
+
+  const clusters = new Map<number, ImageEntry[]>();
+  images.forEach((img, i) => {
+    const root = find(i);
+    clusters.set(root, [...(clusters.get(root) ?? []), img]);
+  });
+
+  return [...clusters.values()]
+    .filter((cluster) => cluster.length > 1)
+    .map((cluster) => cluster.sort((a, b) => a.id - b.id));
+}
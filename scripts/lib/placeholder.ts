@@ -0,0 +1,43 @@
+import sharp from "sharp";
+import type { ImagePlaceholder, ThumbnailCrop } from "./manifest";
+
+/** Longest side of the blurred previews; next/image scales them up */
+const PLACEHOLDER_SIZE = 16;
+
+async function encodeDataUrl(image: sharp.Sharp): Promise<string> {
+  const data = await image
+    .resize(PLACEHOLDER_SIZE, PLACEHOLDER_SIZE, { fit: "inside" })
+    .webp({ quality: 40 })
+    .toBuffer();
+  return `data:image/webp;base64,${data.toString("base64")}`;
+}
+
+function toHex({ r, g, b }: { r: number; g: number; b: number }): string {
+  return "#" + [r, g, b].map((c) => c.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Tiny previews of the full image and the thumbnail (a few hundred bytes
+ * each, inlined in the page) plus the dominant color, shown while the real
+ * files load
+ */
+export async function computePlaceholder(
+  image: Buffer,
+  crop: ThumbnailCrop
+): Promise<ImagePlaceholder> {
+  const { dominant } = await sharp(image).resize(64, 64, { fit: "inside" }).stats();
+  return {
+    color: toHex(dominant),
+    full: await encodeDataUrl(sharp(image)),
+    thumbnail: await computeThumbnailPlaceholder(image, crop),
+  };
+}
+
+/**
+ * Preview of the thumbnail alone, for when only the crop changes
+ */
+export function computeThumbnailPlaceholder(image: Buffer, crop: ThumbnailCrop): Promise<string> {
+  return encodeDataUrl(
+    sharp(image).extract({ left: crop.left, top: crop.top, width: crop.size, height: crop.size })
+  );
+}
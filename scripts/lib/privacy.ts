@@ -0,0 +1,127 @@
+import { z } from "zod";
+import type { ImageLocation, LocationPrivacy } from "./manifest";
+
+/**
+ * Default size of the grid published coordinates are snapped to
+ */
+export const DEFAULT_LOCATION_FUZZ_METERS = 100;
+
+const METERS_PER_DEGREE = 111_320;
+
+const privateZoneSchema = z
+  .object({
+    name: z.string().min(1),
+    /** Polygon vertices as [lat, lng] pairs */
+    polygon: z.array(z.tuple([z.number(), z.number()])).min(3),
+    action: z.enum(["hide", "snap"]),
+    /** Point published instead of the real location (`snap` only) */
+    snap_to: z.object({ lat: z.number(), lng: z.number() }).optional(),
+  })
+  .refine((zone) => zone.action !== "snap" || zone.snap_to, {
+    message: "snap zones need a snap_to point",
+  });
+
+export type PrivateZone = z.infer<typeof privateZoneSchema>;
+
+export interface PrivacyPolicy {
+  /** Width of the grid cells coordinates are snapped to; 0 publishes them as is */
+  fuzzMeters: number;
+  zones: PrivateZone[];
+}
+
+export interface PublishedLocation {
+  location: ImageLocation | null;
+  privacy: LocationPrivacy;
+}
+
+/**
+ * Read the privacy policy from the environment.
+ *
+ * - LOCATION_FUZZ_METERS: grid size, defaults to DEFAULT_LOCATION_FUZZ_METERS
+ * - PRIVATE_ZONES: JSON array of zones, e.g.
+ *   `[{"name":"home","action":"hide","polygon":[[37.77,-122.42],...]}]`
+ *
+ * Zones reveal where they are, so keep them in the encrypted .env
+ * (`dotenvx set PRIVATE_ZONES '...'`) rather than in a committed file.
+ */
+export function resolvePrivacyPolicy(env: NodeJS.ProcessEnv = process.env): PrivacyPolicy {
+  const fuzzMeters =
+    env.LOCATION_FUZZ_METERS === undefined
+      ? DEFAULT_LOCATION_FUZZ_METERS
+      : Number(env.LOCATION_FUZZ_METERS);
+  if (!Number.isFinite(fuzzMeters) || fuzzMeters < 0) {
+    throw new Error(`Invalid LOCATION_FUZZ_METERS: ${env.LOCATION_FUZZ_METERS}`);
+  }
+
+  let zones: PrivateZone[] = [];
+  if (env.PRIVATE_ZONES) {
+    const parsed = z.array(privateZoneSchema).safeParse(JSON.parse(env.PRIVATE_ZONES));
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      throw new Error(`Invalid PRIVATE_ZONES at ${issue.path.join(".")}: ${issue.message}`);
+    }
+    zones = parsed.data;
+  }
+
+  return { fuzzMeters, zones };
+}
+
+/**
+ * Ray casting point-in-polygon test
+ */
+function isInsideZone(location: ImageLocation, zone: PrivateZone): boolean {
+  let inside = false;
+  const { polygon } = zone;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const [latI, lngI] = polygon[i];
+    const [latJ, lngJ] = polygon[j];
+    if (
+      lngI > location.lng !== lngJ > location.lng &&
+      location.lat < ((latJ - latI) * (location.lng - lngI)) / (lngJ - lngI) + latI
+    ) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+function round(value: number): number {
+  return Math.round(value * 1e6) / 1e6;
+}
+
+/**
+ * Snap to the centre of a grid cell `meters` wide. Unlike random noise,
+ * repeated shots from the same place always publish the same point, so
+ * they cannot be averaged back to the real one.
+ */
+function snapToGrid(location: ImageLocation, meters: number): ImageLocation {
+  const latStep = meters / METERS_PER_DEGREE;
+  const lat = (Math.floor(location.lat / latStep) + 0.5) * latStep;
+  const lngStep = meters / (METERS_PER_DEGREE * Math.cos((lat * Math.PI) / 180));
+  const lng = (Math.floor(location.lng / lngStep) + 0.5) * lngStep;
+  return { lat: round(lat), lng: round(lng) };
+}
+
+/**
+ * The location to write to the manifest for a raw GPS fix.
+ * Private zones win over the fuzz grid.
+ */
+export function applyLocationPrivacy(
+  location: ImageLocation,
+  policy: PrivacyPolicy
+): PublishedLocation {
+  const zone = policy.zones.find((candidate) => isInsideZone(location, candidate));
+  if (zone?.action === "hide") {
+    return { location: null, privacy: "hidden" };
+  }
+  if (zone?.snap_to) {
+    return {
+      location: { lat: round(zone.snap_to.lat), lng: round(zone.snap_to.lng) },
+      privacy: "snapped",
+    };
+  }
+  if (policy.fuzzMeters > 0) {
+    return { location: snapToGrid(location, policy.fuzzMeters), privacy: "fuzzed" };
+  }
+  return { location: { lat: round(location.lat), lng: round(location.lng) }, privacy: "exact" };
+}
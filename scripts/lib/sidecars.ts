@@ -0,0 +1,122 @@
+import * as fs from "fs";
+import * as path from "path";
+// Not exifr.sidecar: the default export of exifr 7.1 lacks it at runtime
+import { sidecar as parseXmp } from "exifr";
+import type { ExifMetadata, ImageLocation } from "./exif";
+
+/**
+ * Metadata read from a file next to the photo. Same shape as what is read
+ * from the photo itself, so both go through the same precedence rules.
+ */
+export type SidecarMetadata = ExifMetadata;
+
+export interface Sidecars {
+  /** XMP written by Lightroom, darktable, digiKam... */
+  xmp: SidecarMetadata | null;
+  /** JSON that Google Takeout exports next to each photo */
+  takeout: SidecarMetadata | null;
+  /** Sidecar files found, to be archived with the original */
+  files: string[];
+}
+
+const EMPTY: SidecarMetadata = { takenAt: null, wallClock: null, location: null };
+
+/**
+ * Candidate sidecar paths for `IMG_1234.HEIC`. Editors write either
+ * `IMG_1234.xmp` or `IMG_1234.HEIC.xmp`; Takeout writes `IMG_1234.HEIC.json`
+ * or, since 2024, `IMG_1234.HEIC.supplemental-metadata.json`.
+ */
+function sidecarCandidates(filePath: string): { xmp: string[]; takeout: string[] } {
+  const withoutExt = filePath.slice(0, -path.extname(filePath).length);
+  return {
+    xmp: [`${withoutExt}.xmp`, `${withoutExt}.XMP`, `${filePath}.xmp`, `${filePath}.XMP`],
+    takeout: [`${filePath}.json`, `${filePath}.supplemental-metadata.json`, `${withoutExt}.json`],
+  };
+}
+
+/**
+ * Parse an XMP GPS coordinate: "37,46.5123N" or "37,46,30.7N"
+ */
+function parseXmpCoordinate(value: unknown): number | null {
+  if (typeof value !== "string") return null;
+  const match = value.trim().match(/^(\d+),(\d+(?:\.\d+)?)(?:,(\d+(?:\.\d+)?))?([NSEW])$/i);
+  if (!match) return null;
+  const [, degrees, minutes, seconds, ref] = match;
+  const decimal = Number(degrees) + Number(minutes) / 60 + Number(seconds ?? 0) / 3600;
+  return /[SW]/i.test(ref) ? -decimal : decimal;
+}
+
+/**
+ * Parse an XMP date. With an offset it is an instant; without one it is
+ * wall-clock time, returned in EXIF format to be resolved once the
+ * location (and so the timezone) is known.
+ */
+function parseXmpDate(value: unknown): Pick<SidecarMetadata, "takenAt" | "wallClock"> {
+  if (typeof value !== "string") return { takenAt: null, wallClock: null };
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})(?::(\d{2}))?(?:\.\d+)?(Z|[+-]\d{2}:\d{2})?$/);
+  if (!match) return { takenAt: null, wallClock: null };
+
+  const [, year, month, day, hours, minutes, seconds = "00", offset] = match;
+  if (offset) {
+    return { takenAt: new Date(value), wallClock: null };
+  }
+  return { takenAt: null, wallClock: `${year}:${month}:${day} ${hours}:${minutes}:${seconds}` };
+}
+
+/**
+ * A tag of the sidecar, by XMP namespace (`exif`, `photoshop`...). exifr
+ * only types its output as `object`.
+ */
+function getXmpTag(xmp: object, namespace: string, tag: string): unknown {
+  const values: unknown = Reflect.get(xmp, namespace);
+  return typeof values === "object" && values !== null ? Reflect.get(values, tag) : undefined;
+}
+
+async function readXmpSidecar(file: string): Promise<SidecarMetadata> {
+  const xmp = await parseXmp(file);
+  if (!xmp) return EMPTY;
+
+  const date = parseXmpDate(
+    getXmpTag(xmp, "exif", "DateTimeOriginal") ??
+      getXmpTag(xmp, "photoshop", "DateCreated") ??
+      getXmpTag(xmp, "xmp", "CreateDate")
+  );
+  const lat = parseXmpCoordinate(getXmpTag(xmp, "exif", "GPSLatitude"));
+  const lng = parseXmpCoordinate(getXmpTag(xmp, "exif", "GPSLongitude"));
+  const location: ImageLocation | null = lat !== null && lng !== null ? { lat, lng } : null;
+
+  return { ...date, location };
+}
+
+function readTakeoutSidecar(file: string): SidecarMetadata {
+  const json = JSON.parse(fs.readFileSync(file, "utf-8"));
+
+  const timestamp = Number(json.photoTakenTime?.timestamp);
+  const takenAt = Number.isFinite(timestamp) && timestamp > 0 ? new Date(timestamp * 1000) : null;
+
+  // geoData holds edits made in Google Photos; 0,0 means "no location"
+  let location: ImageLocation | null = null;
+  for (const geo of [json.geoData, json.geoDataExif]) {
+    if (typeof geo?.latitude === "number" && (geo.latitude !== 0 || geo.longitude !== 0)) {
+      location = { lat: geo.latitude, lng: geo.longitude };
+      break;
+    }
+  }
+
+  return { takenAt, wallClock: null, location };
+}
+
+/**
+ * Read the XMP and Takeout sidecars of a photo, if it has any
+ */
+export async function readSidecars(filePath: string): Promise<Sidecars> {
+  const candidates = sidecarCandidates(filePath);
+  const xmpFile = candidates.xmp.find((file) => fs.existsSync(file));
+  const takeoutFile = candidates.takeout.find((file) => fs.existsSync(file));
+
+  return {
+    xmp: xmpFile ? await readXmpSidecar(xmpFile) : null,
+    takeout: takeoutFile ? readTakeoutSidecar(takeoutFile) : null,
+    files: [xmpFile, takeoutFile].filter((file): file is string => file !== undefined),
+  };
+}
@@ -0,0 +1,133 @@
+import sharp from "sharp";
+import type { ThumbnailCrop, ThumbnailCropStrategy } from "./manifest";
+import { parseJsonResponse, type VisionProvider } from "./vision";
+
+export type AutoCropStrategy = Exclude<ThumbnailCropStrategy, "manual">;
+
+export const AUTO_CROP_STRATEGIES: AutoCropStrategy[] = ["saliency", "entropy", "vision", "center"];
+
+const BOUNDING_BOX_PROMPT = `This is a photo of an advertisement or billboard in San Francisco.
+
+Find the part of the photo that identifies the ad: the brand name, logo and headline.
+Return its bounding box with coordinates as fractions of the image width and height (0 to 1),
+x/y being the top-left corner.
+
+Return JSON: {"box": {"x": 0.1, "y": 0.2, "width": 0.5, "height": 0.4}}`;
+
+export function centerCrop(width: number, height: number): ThumbnailCrop {
+  const size = Math.min(width, height);
+  return {
+    left: Math.floor((width - size) / 2),
+    top: Math.floor((height - size) / 2),
+    size,
+    strategy: "center",
+  };
+}
+
+/**
+ * Let sharp pick the square: `attention` favours skin, saturated colours
+ * and luminance (saliency), `entropy` the busiest region
+ */
+async function sharpCrop(
+  image: Buffer,
+  width: number,
+  height: number,
+  strategy: "saliency" | "entropy"
+): Promise<ThumbnailCrop> {
+  const size = Math.min(width, height);
+  const { info } = await sharp(image)
+    .resize(size, size, {
+      fit: "cover",
+      position: strategy === "saliency" ? sharp.strategy.attention : sharp.strategy.entropy,
+    })
+    .toBuffer({ resolveWithObject: true });
+
+  // The image is not scaled (size is its short side), so the offsets sharp
+  // reports are negative pixel offsets into the original
+  return {
+    left: Math.abs(info.cropOffsetLeft ?? 0),
+    top: Math.abs(info.cropOffsetTop ?? 0),
+    size,
+    strategy,
+  };
+}
+
+/**
+ * Ask the vision model where the ad is, then center the square on it
+ */
+async function visionCrop(
+  vision: VisionProvider,
+  image: Buffer,
+  width: number,
+  height: number
+): Promise<ThumbnailCrop> {
+  const content = await vision.complete({ image, prompt: BOUNDING_BOX_PROMPT, maxTokens: 100 });
+  const box = parseJsonResponse(content).box as Record<string, unknown> | undefined;
+  const [x, y, w, h] = [box?.x, box?.y, box?.width, box?.height];
+  if (![x, y, w, h].every((v) => typeof v === "number" && v >= 0 && v <= 1)) {
+    throw new Error(`Invalid bounding box: ${content.substring(0, 100)}`);
+  }
+
+  const size = Math.min(width, height);
+  const centerX = ((x as number) + (w as number) / 2) * width;
+  const centerY = ((y as number) + (h as number) / 2) * height;
+  const clamp = (value: number, max: number) => Math.round(Math.min(Math.max(value, 0), max));
+
+  return {
+    left: clamp(centerX - size / 2, width - size),
+    top: clamp(centerY - size / 2, height - size),
+    size,
+    strategy: "vision",
+  };
+}
+
+/**
+ * Pick the square thumbnail region of an upright image.
+ *
+ * Falls back to a saliency crop when the vision model fails, and to a
+ * center crop if that fails too.
+ */
+export async function computeThumbnailCrop(
+  image: Buffer,
+  width: number,
+  height: number,
+  strategy: AutoCropStrategy,
+  vision?: VisionProvider
+): Promise<ThumbnailCrop> {
+  try {
+    switch (strategy) {
+      case "center":
+        return centerCrop(width, height);
+      case "saliency":
+      case "entropy":
+        return await sharpCrop(image, width, height, strategy);
+      case "vision":
+        if (!vision) throw new Error("No vision provider configured");
+        try {
+          return await visionCrop(vision, image, width, height);
+        } catch (error) {
+          console.warn(`  ⚠ Vision crop failed, using saliency: ${error}`);
+          return await sharpCrop(image, width, height, "saliency");
+        }
+    }
+  } catch (error) {
+    console.warn(`  ⚠ Smart crop failed, using center: ${error}`);
+    return centerCrop(width, height);
+  }
+}
+
+/**
+ * Validate a --crop-strategy flag (or THUMBNAIL_CROP_STRATEGY), defaulting
+ * to saliency
+ */
+export function resolveCropStrategy(
+  value: string | undefined = process.env.THUMBNAIL_CROP_STRATEGY
+): AutoCropStrategy {
+  const strategy = (value ?? "saliency") as AutoCropStrategy;
+  if (!AUTO_CROP_STRATEGIES.includes(strategy)) {
+    throw new Error(
+      `Unknown crop strategy "${strategy}" (expected ${AUTO_CROP_STRATEGIES.join(", ")})`
+    );
+  }
+  return strategy;
+}
@@ -0,0 +1,148 @@
+import * as fs from "fs";
+import * as path from "path";
+import sharp from "sharp";
+import { findEmbeddedMetadata } from "./derivatives";
+import { computeFileHash } from "./hash";
+import type { ImageEntry, ImagesYaml } from "./manifest";
+import { ORIGINALS_DIR, PUBLIC_IMAGES_DIR } from "./paths";
+import { getVariantFilenames } from "../../src/lib/variants";
+
+export type ManifestIssue =
+  | { type: "duplicate_id"; id: number; count: number }
+  | {
+      type: "missing_derivative";
+      id: number;
+      field: "filename" | "thumbnail_filename" | "variants";
+      file: string;
+    }
+  | { type: "missing_original"; id: number; file: string }
+  | { type: "hash_mismatch"; id: number; file: string; expected: string; actual: string }
+  | {
+      type: "dimension_mismatch";
+      id: number;
+      file: string;
+      expected: { width: number; height: number };
+      actual: { width: number; height: number };
+    }
+  | { type: "embedded_metadata"; id: number; file: string; kinds: string[] }
+  | { type: "orphaned_file"; file: string };
+
+/**
+ * Responsive variants of an entry's full image and thumbnail
+ */
+export function getEntryVariantFiles(img: ImageEntry): string[] {
+  if (!img.variants) return [];
+  return [
+    ...getVariantFilenames(img.filename, img.variants.full),
+    ...getVariantFilenames(img.thumbnail_filename, img.variants.thumbnail),
+  ];
+}
+
+/**
+ * Files in public/images that the manifest points at
+ */
+export function getReferencedFiles(images: ImageEntry[]): Set<string> {
+  return new Set(
+    images.flatMap((img) => [img.filename, img.thumbnail_filename, ...getEntryVariantFiles(img)])
+  );
+}
+
+async function verifyEntry(img: ImageEntry): Promise<ManifestIssue[]> {
+  const issues: ManifestIssue[] = [];
+
+  const derivatives = [
+    { field: "filename" as const, file: img.filename },
+    { field: "thumbnail_filename" as const, file: img.thumbnail_filename },
+    ...getEntryVariantFiles(img).map((file) => ({ field: "variants" as const, file })),
+  ];
+  for (const { field, file } of derivatives) {
+    const filePath = path.join(PUBLIC_IMAGES_DIR, file);
+    if (!fs.existsSync(filePath)) {
+      issues.push({ type: "missing_derivative", id: img.id, field, file });
+      continue;
+    }
+    const kinds = await findEmbeddedMetadata(filePath);
+    if (kinds.length > 0) {
+      issues.push({ type: "embedded_metadata", id: img.id, file, kinds });
+    }
+  }
+
+  const fullPath = path.join(PUBLIC_IMAGES_DIR, img.filename);
+  if (fs.existsSync(fullPath)) {
+    const metadata = await sharp(fullPath).metadata();
+    if (metadata.width !== img.width || metadata.height !== img.height) {
+      issues.push({
+        type: "dimension_mismatch",
+        id: img.id,
+        file: img.filename,
+        expected: { width: img.width, height: img.height },
+        actual: { width: metadata.width ?? 0, height: metadata.height ?? 0 },
+      });
+    }
+  }
+
+  const originalPath = path.join(ORIGINALS_DIR, img.original_path);
+  if (!fs.existsSync(originalPath)) {
+    issues.push({ type: "missing_original", id: img.id, file: img.original_path });
+  } else {
+    const hash = await computeFileHash(originalPath);
+    if (hash !== img.original_hash) {
+      issues.push({
+        type: "hash_mismatch",
+        id: img.id,
+        file: img.original_path,
+        expected: img.original_hash,
+        actual: hash,
+      });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Compare the manifest with public/images and originals/
+ */
+export async function verifyManifest(data: ImagesYaml): Promise<ManifestIssue[]> {
+  const issues: ManifestIssue[] = [];
+
+  const idCounts = new Map<number, number>();
+  for (const img of data.images) {
+    idCounts.set(img.id, (idCounts.get(img.id) ?? 0) + 1);
+  }
+  for (const [id, count] of idCounts) {
+    if (count > 1) issues.push({ type: "duplicate_id", id, count });
+  }
+
+  for (const img of data.images) {
+    issues.push(...(await verifyEntry(img)));
+  }
+
+  const referenced = getReferencedFiles(data.images);
+  if (fs.existsSync(PUBLIC_IMAGES_DIR)) {
+    for (const file of fs.readdirSync(PUBLIC_IMAGES_DIR).sort()) {
+      if (!referenced.has(file)) issues.push({ type: "orphaned_file", file });
+    }
+  }
+
+  return issues;
+}
+
+export function formatIssue(issue: ManifestIssue): string {
+  switch (issue.type) {
+    case "duplicate_id":
+      return `id ${issue.id} is used by ${issue.count} entries`;
+    case "missing_derivative":
+      return `id ${issue.id}: ${issue.field} ${issue.file} is missing from public/images`;
+    case "missing_original":
+      return `id ${issue.id}: original ${issue.file} is missing from originals/`;
+    case "hash_mismatch":
+      return `id ${issue.id}: ${issue.file} hashes to ${issue.actual}, manifest says ${issue.expected}`;
+    case "dimension_mismatch":
+      return `id ${issue.id}: ${issue.file} is ${issue.actual.width}x${issue.actual.height}, manifest says ${issue.expected.width}x${issue.expected.height}`;
+    case "embedded_metadata":
+      return `id ${issue.id}: ${issue.file} contains ${issue.kinds.join(", ")} metadata`;
+    case "orphaned_file":
+      return `${issue.file} is not referenced by the manifest`;
+  }
+}
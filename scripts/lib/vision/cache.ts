@@ -0,0 +1,32 @@
+import * as fs from "fs";
+import * as path from "path";
+import { CACHE_DIR } from "../paths";
+
+/**
+ * On-disk cache of model answers under `.cache/<name>`.
+ *
+ * Keyed by original hash, model and prompt version, so changing the model
+ * or the prompt misses the cache.
+ */
+export function createResponseCache(name: string, promptVersion: number, extension: string) {
+  const dir = path.join(CACHE_DIR, name);
+
+  const getCacheFile = (hash: string, model: string) => {
+    const key = `${hash}_${model}_v${promptVersion}`.replace(/[^a-zA-Z0-9._-]/g, "_");
+    return path.join(dir, `${key}.${extension}`);
+  };
+
+  return {
+    get(hash: string, model: string): string | null {
+      const cacheFile = getCacheFile(hash, model);
+      if (fs.existsSync(cacheFile)) {
+        return fs.readFileSync(cacheFile, "utf-8");
+      }
+      return null;
+    },
+    set(hash: string, model: string, value: string): void {
+      fs.mkdirSync(dir, { recursive: true });
+      fs.writeFileSync(getCacheFile(hash, model), value, "utf-8");
+    },
+  };
+}
@@ -0,0 +1,41 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as crypto from "crypto";
+import type { VisionProvider } from "./types";
+
+/**
+ * Deterministic provider for tests and offline runs.
+ *
+ * Answers with `<fixturesDir>/<sha256 of image>.json` when it exists,
+ * otherwise with a canned response (derived from the image hash) that
+ * answers every prompt the importer sends. Never touches the network.
+ */
+export function createFixtureProvider(options: {
+  model: string;
+  fixturesDir?: string;
+}): VisionProvider {
+  return {
+    name: "fixture",
+    model: options.model,
+    async complete({ image }) {
+      const hash = crypto.createHash("sha256").update(image).digest("hex");
+
+      if (options.fixturesDir) {
+        const fixturePath = path.join(options.fixturesDir, `${hash}.json`);
+        if (fs.existsSync(fixturePath)) {
+          return fs.readFileSync(fixturePath, "utf-8");
+        }
+      }
+
+      return JSON.stringify({
+        alt_text: `An advertisement from San Francisco (fixture ${hash.substring(0, 12)}).`,
+        box: { x: 0.25, y: 0.25, width: 0.5, height: 0.5 },
+        brand: null,
+        copy: `FIXTURE ${hash.substring(0, 12)}`,
+        category: "other",
+        medium: "billboard",
+        themes: [],
+      });
+    },
+  };
+}
@@ -0,0 +1,115 @@
+import { createFixtureProvider } from "./fixture";
+import { createOpenAIProvider } from "./openai";
+import { withReliability } from "./reliability";
+import type { VisionOptions, VisionProvider, VisionProviderName } from "./types";
+
+export type { VisionOptions, VisionProvider, VisionRequest } from "./types";
+
+const PROVIDERS: VisionProviderName[] = ["openai", "local", "fixture"];
+
+const DEFAULT_MODELS: Record<VisionProviderName, string> = {
+  openai: "gpt-4o",
+  local: "llava",
+  fixture: "fixture",
+};
+
+// Ollama's OpenAI-compatible endpoint; llama.cpp server uses http://localhost:8080/v1
+const DEFAULT_LOCAL_BASE_URL = "http://localhost:11434/v1";
+
+/**
+ * Integer option of at least `min`, or `fallback` when unset
+ */
+function parseIntOption(
+  value: string | undefined,
+  name: string,
+  fallback: number,
+  min: number
+): number {
+  if (value === undefined) return fallback;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < min) {
+    throw new Error(`Invalid ${name}: ${value} (expected an integer of at least ${min})`);
+  }
+  return parsed;
+}
+
+/**
+ * CLI flags understood by resolveVisionOptions, in util.parseArgs format
+ */
+export const VISION_CLI_OPTIONS = {
+  "vision-provider": { type: "string" },
+  "vision-model": { type: "string" },
+  "vision-base-url": { type: "string" },
+  "vision-fixtures": { type: "string" },
+  "vision-concurrency": { type: "string" },
+  "vision-timeout": { type: "string" },
+  "vision-retries": { type: "string" },
+} as const;
+
+type VisionFlags = Partial<Record<keyof typeof VISION_CLI_OPTIONS, string>>;
+
+/**
+ * Resolve vision options from CLI flags, falling back to environment
+ * variables (VISION_PROVIDER, VISION_MODEL, VISION_BASE_URL,
+ * VISION_FIXTURES_DIR, VISION_CONCURRENCY, VISION_TIMEOUT_MS,
+ * VISION_RETRIES) and then to defaults.
+ */
+export function resolveVisionOptions(
+  flags: VisionFlags,
+  env: NodeJS.ProcessEnv = process.env
+): VisionOptions {
+  const provider = (flags["vision-provider"] ?? env.VISION_PROVIDER ?? "openai") as VisionProviderName;
+  if (!PROVIDERS.includes(provider)) {
+    throw new Error(`Unknown vision provider "${provider}" (expected ${PROVIDERS.join(", ")})`);
+  }
+
+  return {
+    provider,
+    model: flags["vision-model"] ?? env.VISION_MODEL ?? DEFAULT_MODELS[provider],
+    baseUrl:
+      flags["vision-base-url"] ??
+      env.VISION_BASE_URL ??
+      (provider === "local" ? DEFAULT_LOCAL_BASE_URL : undefined),
+    fixturesDir: flags["vision-fixtures"] ?? env.VISION_FIXTURES_DIR,
+    concurrency: parseIntOption(
+      flags["vision-concurrency"] ?? env.VISION_CONCURRENCY,
+      "concurrency",
+      4,
+      1
+    ),
+    timeoutMs: parseIntOption(flags["vision-timeout"] ?? env.VISION_TIMEOUT_MS, "timeout", 60_000, 1),
+    // 0 retries is a single attempt
+    retries: parseIntOption(flags["vision-retries"] ?? env.VISION_RETRIES, "retries", 3, 0),
+  };
+}
+
+export function createVisionProvider(options: VisionOptions): VisionProvider {
+  let provider: VisionProvider;
+
+  switch (options.provider) {
+    case "openai":
+      provider = createOpenAIProvider({ name: "openai", model: options.model, baseUrl: options.baseUrl });
+      break;
+    case "local":
+      provider = createOpenAIProvider({ name: "local", model: options.model, baseUrl: options.baseUrl });
+      break;
+    case "fixture":
+      provider = createFixtureProvider({ model: options.model, fixturesDir: options.fixturesDir });
+      break;
+  }
+
+  return withReliability(provider, options);
+}
+
+/**
+ * Parse a model's JSON answer. Local models sometimes wrap it in a
+ * markdown code fence even when asked for a JSON object.
+ */
+export function parseJsonResponse(content: string): Record<string, unknown> {
+  const unfenced = content.trim().replace(/^```(?:json)?\s*/i, "").replace(/\s*```$/, "");
+  const parsed = JSON.parse(unfenced);
+  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+    throw new Error(`Expected a JSON object, got: ${content.substring(0, 100)}`);
+  }
+  return parsed;
+}
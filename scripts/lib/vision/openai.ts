@@ -0,0 +1,55 @@
+import OpenAI from "openai";
+import type { VisionProvider } from "./types";
+
+/**
+ * Provider for the OpenAI API, or any server speaking the same protocol
+ * (llama.cpp server, Ollama, vLLM...) when `baseUrl` is set.
+ */
+export function createOpenAIProvider(options: {
+  name: string;
+  model: string;
+  baseUrl?: string;
+}): VisionProvider {
+  const client = new OpenAI({
+    baseURL: options.baseUrl,
+    // Local servers ignore the key, but the SDK requires one
+    apiKey: options.baseUrl ? process.env.OPENAI_API_KEY || "local" : undefined,
+    // Retries are handled by withReliability so every provider behaves the same
+    maxRetries: 0,
+  });
+
+  return {
+    name: options.name,
+    model: options.model,
+    async complete({ image, prompt, maxTokens }, signal) {
+      const response = await client.chat.completions.create(
+        {
+          model: options.model,
+          messages: [
+            {
+              role: "user",
+              content: [
+                { type: "text", text: prompt },
+                {
+                  type: "image_url",
+                  image_url: {
+                    url: `data:image/jpeg;base64,${image.toString("base64")}`,
+                  },
+                },
+              ],
+            },
+          ],
+          max_tokens: maxTokens,
+          response_format: { type: "json_object" },
+        },
+        { signal }
+      );
+
+      const content = response.choices[0]?.message?.content;
+      if (!content) {
+        throw new Error("No response from AI");
+      }
+      return content;
+    },
+  };
+}
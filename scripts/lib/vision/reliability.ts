@@ -0,0 +1,53 @@
+import { createLimiter } from "../concurrency";
+import type { VisionOptions, VisionProvider } from "./types";
+
+const BASE_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 30_000;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Wrap a provider with a concurrency cap, a per-attempt timeout and
+ * retries with exponential backoff (plus jitter).
+ */
+export function withReliability(
+  provider: VisionProvider,
+  options: Pick<VisionOptions, "concurrency" | "timeoutMs" | "retries">
+): VisionProvider {
+  const limit = createLimiter(options.concurrency);
+
+  return {
+    ...provider,
+    complete(request) {
+      return limit(async () => {
+        let lastError: unknown;
+
+        for (let attempt = 0; attempt <= options.retries; attempt++) {
+          if (attempt > 0) {
+            const backoff = Math.min(BASE_BACKOFF_MS * 2 ** (attempt - 1), MAX_BACKOFF_MS);
+            await sleep(backoff / 2 + Math.random() * (backoff / 2));
+          }
+
+          const controller = new AbortController();
+          const timer = setTimeout(() => controller.abort(), options.timeoutMs);
+          try {
+            return await provider.complete(request, controller.signal);
+          } catch (error) {
+            lastError = controller.signal.aborted
+              ? new Error(`Timed out after ${options.timeoutMs}ms`)
+              : error;
+            console.warn(
+              `  ⚠ ${provider.name} attempt ${attempt + 1}/${options.retries + 1} failed: ${lastError}`
+            );
+          } finally {
+            clearTimeout(timer);
+          }
+        }
+
+        throw lastError;
+      });
+    },
+  };
+}
@@ -0,0 +1,32 @@
+export interface VisionRequest {
+  image: Buffer;
+  prompt: string;
+  maxTokens: number;
+}
+
+/**
+ * A vision model that answers a prompt about an image with a JSON object
+ */
+export interface VisionProvider {
+  name: string;
+  model: string;
+  /** Returns the raw JSON text produced by the model */
+  complete(request: VisionRequest, signal?: AbortSignal): Promise<string>;
+}
+
+export type VisionProviderName = "openai" | "local" | "fixture";
+
+export interface VisionOptions {
+  provider: VisionProviderName;
+  model: string;
+  /** Base URL of an OpenAI-compatible endpoint (local provider) */
+  baseUrl?: string;
+  /** Directory of `<image-sha256>.json` responses (fixture provider) */
+  fixturesDir?: string;
+  /** Max requests in flight at once */
+  concurrency: number;
+  /** Per-attempt timeout */
+  timeoutMs: number;
+  /** Retries after the first attempt */
+  retries: number;
+}
@@ -0,0 +1,270 @@
+#!/usr/bin/env tsx
+import * as fs from "fs";
+import * as path from "path";
+import * as readline from "readline/promises";
+import { parseArgs } from "util";
+import { writeFileAtomic } from "./lib/atomic-write";
+import {
+  decodeOriginal,
+  encodeFullImage,
+  encodeFullVariants,
+  encodeThumbnail,
+  encodeThumbnailVariants,
+} from "./lib/derivatives";
+import { loadImagesYaml, type ImageEntry } from "./lib/manifest";
+import { ORIGINALS_DIR, PUBLIC_IMAGES_DIR } from "./lib/paths";
+import {
+  DEFAULT_NEAR_DUPLICATE_THRESHOLD,
+  clusterNearDuplicates,
+  hammingDistance,
+} from "./lib/perceptual-hash";
+import { formatIssue, verifyManifest, type ManifestIssue } from "./lib/verify";
+import { getVariantFilename } from "../src/lib/variants";
+
+const USAGE = `Usage:
+  pnpm manifest verify [--json]
+  pnpm manifest repair [--yes]
+  pnpm manifest duplicates [--threshold <bits>] [--json]`;
+
+type RepairAction =
+  | { kind: "regenerate"; entry: ImageEntry; files: string[] }
+  | { kind: "delete"; file: string };
+
+/**
+ * Turn issues into the fixes repair knows how to make: regenerate missing,
+ * wrongly sized or metadata-carrying derivatives from a matching original,
+ * delete orphans.
+ * Everything else is returned as unresolved and needs a human.
+ */
+function planRepairs(
+  issues: ManifestIssue[],
+  images: ImageEntry[]
+): { actions: RepairAction[]; unresolved: ManifestIssue[] } {
+  const unusableOriginals = new Set<number>();
+  for (const issue of issues) {
+    if (issue.type === "missing_original" || issue.type === "hash_mismatch") {
+      unusableOriginals.add(issue.id);
+    }
+  }
+
+  const regenerate = new Map<number, string[]>();
+  const deletions: RepairAction[] = [];
+  const unresolved: ManifestIssue[] = [];
+
+  for (const issue of issues) {
+    if (
+      (issue.type === "missing_derivative" ||
+        issue.type === "dimension_mismatch" ||
+        issue.type === "embedded_metadata") &&
+      !unusableOriginals.has(issue.id)
+    ) {
+      regenerate.set(issue.id, [...(regenerate.get(issue.id) ?? []), issue.file]);
+    } else if (issue.type === "orphaned_file") {
+      deletions.push({ kind: "delete", file: issue.file });
+    } else {
+      unresolved.push(issue);
+    }
+  }
+
+  const regenerations: RepairAction[] = [...regenerate].map(([id, files]) => ({
+    kind: "regenerate",
+    entry: images.find((img) => img.id === id)!,
+    files: [...new Set(files)],
+  }));
+
+  return { actions: [...regenerations, ...deletions], unresolved };
+}
+
+async function regenerateDerivatives(entry: ImageEntry, files: string[]): Promise<void> {
+  const { image, width, height } = await decodeOriginal(
+    path.join(ORIGINALS_DIR, entry.original_path)
+  );
+  if (width !== entry.width || height !== entry.height) {
+    throw new Error(
+      `original is ${width}x${height} but the manifest says ${entry.width}x${entry.height}`
+    );
+  }
+
+  // Variants are encoded as a set, so only do it when one of them is needed
+  const variants = new Map<string, Buffer>();
+  const needsVariants = files.some(
+    (file) => file !== entry.filename && file !== entry.thumbnail_filename
+  );
+  if (entry.variants && needsVariants) {
+    for (const { width, format, data } of await encodeFullVariants(image, entry.variants.full)) {
+      variants.set(getVariantFilename(entry.filename, width, format), data);
+    }
+    for (const { width, format, data } of await encodeThumbnailVariants(
+      image,
+      entry.thumbnail_crop,
+      entry.variants.thumbnail
+    )) {
+      variants.set(getVariantFilename(entry.thumbnail_filename, width, format), data);
+    }
+  }
+
+  for (const file of files) {
+    const data =
+      file === entry.thumbnail_filename
+        ? await encodeThumbnail(image, entry.thumbnail_crop)
+        : file === entry.filename
+          ? await encodeFullImage(image)
+          : variants.get(file);
+    if (!data) {
+      throw new Error(`${file} is not a derivative of id ${entry.id}`);
+    }
+    writeFileAtomic(path.join(PUBLIC_IMAGES_DIR, file), data);
+    console.log(`  💾 Regenerated: ${file}`);
+  }
+}
+
+/**
+ * List clusters of near-duplicate shots so the best one can be kept
+ */
+function reportDuplicates(images: ImageEntry[], threshold: number, json: boolean): number {
+  const clusters = clusterNearDuplicates(images, threshold);
+
+  if (json) {
+    console.log(
+      JSON.stringify(
+        {
+          threshold,
+          clusters: clusters.map((cluster) =>
+            cluster.map((img) => ({
+              id: img.id,
+              original_path: img.original_path,
+              taken_at: img.taken_at,
+              width: img.width,
+              height: img.height,
+              perceptual_hash: img.perceptual_hash,
+            }))
+          ),
+        },
+        null,
+        2
+      )
+    );
+    return clusters.length;
+  }
+
+  console.log(`Checked ${images.length} images (threshold ${threshold} bits)`);
+  clusters.forEach((cluster, i) => {
+    console.log(`\nCluster ${i + 1}:`);
+    for (const img of cluster) {
+      const distance = hammingDistance(cluster[0].perceptual_hash, img.perceptual_hash);
+      console.log(
+        `  ${img.id}\t${img.original_path}\t${img.taken_at}\t${img.width}x${img.height}\tdistance ${distance}`
+      );
+    }
+  });
+  console.log(
+    clusters.length === 0 ? "✓ No near-duplicates" : `\nFound ${clusters.length} cluster(s)`
+  );
+  return clusters.length;
+}
+
+async function confirm(question: string): Promise<boolean> {
+  const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+  try {
+    const answer = await rl.question(`${question} [y/N] `);
+    return answer.trim().toLowerCase() === "y";
+  } finally {
+    rl.close();
+  }
+}
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    options: {
+      json: { type: "boolean", default: false },
+      yes: { type: "boolean", short: "y", default: false },
+      threshold: { type: "string", default: String(DEFAULT_NEAR_DUPLICATE_THRESHOLD) },
+    },
+    allowPositionals: true,
+  });
+
+  const command = positionals[0];
+  if (command !== "verify" && command !== "repair" && command !== "duplicates") {
+    console.error(USAGE);
+    process.exit(1);
+  }
+
+  const data = await loadImagesYaml();
+
+  if (command === "duplicates") {
+    const threshold = Number(values.threshold);
+    if (!Number.isInteger(threshold) || threshold < 0) {
+      console.error(`Invalid --threshold: ${values.threshold}`);
+      process.exit(1);
+    }
+    reportDuplicates(data.images, threshold, values.json);
+    return;
+  }
+
+  const issues = await verifyManifest(data);
+
+  if (command === "verify") {
+    if (values.json) {
+      console.log(JSON.stringify({ images: data.images.length, issues }, null, 2));
+    } else {
+      console.log(`Checked ${data.images.length} images`);
+      for (const issue of issues) {
+        console.log(`  ❌ [${issue.type}] ${formatIssue(issue)}`);
+      }
+      console.log(issues.length === 0 ? "✓ Manifest matches disk" : `Found ${issues.length} issue(s)`);
+    }
+    process.exit(issues.length === 0 ? 0 : 1);
+  }
+
+  const { actions, unresolved } = planRepairs(issues, data.images);
+
+  if (unresolved.length > 0) {
+    console.log("Needs manual attention:");
+    for (const issue of unresolved) {
+      console.log(`  ⚠ [${issue.type}] ${formatIssue(issue)}`);
+    }
+    console.log();
+  }
+
+  if (actions.length === 0) {
+    console.log("Nothing to repair");
+    process.exit(unresolved.length === 0 ? 0 : 1);
+  }
+
+  console.log("Planned repairs:");
+  for (const action of actions) {
+    console.log(
+      action.kind === "regenerate"
+        ? `  🔄 id ${action.entry.id}: regenerate ${action.files.join(", ")} from ${action.entry.original_path}`
+        : `  🗑 delete public/images/${action.file}`
+    );
+  }
+  console.log();
+
+  if (!values.yes && !(await confirm("Apply these repairs?"))) {
+    console.log("Aborted");
+    process.exit(1);
+  }
+
+  let failed = 0;
+  for (const action of actions) {
+    if (action.kind === "delete") {
+      fs.unlinkSync(path.join(PUBLIC_IMAGES_DIR, action.file));
+      console.log(`  🗑 Deleted: ${action.file}`);
+      continue;
+    }
+    try {
+      await regenerateDerivatives(action.entry, action.files);
+    } catch (error) {
+      console.error(`  ❌ id ${action.entry.id}: ${error}`);
+      failed++;
+    }
+  }
+
+  process.exit(failed === 0 && unresolved.length === 0 ? 0 : 1);
+}
+
+main().catch((error) => {
+  console.error("Fatal error:", error);
+  process.exit(1);
+});
@@ -0,0 +1,84 @@
+#!/usr/bin/env tsx
+import * as fs from "fs";
+import * as path from "path";
+import { parseArgs } from "util";
+import { generateAltText, isAltTextStale } from "./lib/alt-text";
+import { loadImagesYaml, saveImagesYaml } from "./lib/manifest";
+import { PUBLIC_IMAGES_DIR } from "./lib/paths";
+import {
+  VISION_CLI_OPTIONS,
+  createVisionProvider,
+  resolveVisionOptions,
+} from "./lib/vision";
+
+/**
+ * Re-run alt text generation for entries that fell back to the placeholder
+ * or were generated with another model or prompt version.
+ *
+ * Entries with `alt_text_provenance.status: human` are never touched: set
+ * it by hand when editing `ai_generated_alt_text` in images.yaml.
+ */
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      ...VISION_CLI_OPTIONS,
+      "dry-run": { type: "boolean", default: false },
+    },
+  });
+
+  const vision = createVisionProvider(resolveVisionOptions(values));
+  const data = await loadImagesYaml();
+
+  const stale = data.images.filter((img) => isAltTextStale(img, vision.model));
+  console.log(`Found ${data.images.length} images, ${stale.length} with stale alt text`);
+  console.log(`Vision: ${vision.name}/${vision.model}\n`);
+
+  if (values["dry-run"]) {
+    for (const img of stale) {
+      const { status, model, prompt_version } = img.alt_text_provenance;
+      console.log(`  ${img.id}: ${status} (${model ?? "no model"}, prompt v${prompt_version})`);
+    }
+    return;
+  }
+
+  let regenerated = 0;
+  let failed = 0;
+
+  for (const img of stale) {
+    console.log(`Processing: ${img.id} (${img.original_path})`);
+    let imageBuffer: Buffer;
+    try {
+      imageBuffer = fs.readFileSync(path.join(PUBLIC_IMAGES_DIR, img.filename));
+    } catch (error) {
+      // A missing file fails this entry only; `pnpm manifest verify` lists them all
+      console.error(`  ❌ ${error}`);
+      failed++;
+      console.log();
+      continue;
+    }
+    const altText = await generateAltText(vision, imageBuffer, img.original_hash);
+
+    if (altText.provenance.status === "fallback") {
+      // Keep whatever was there before rather than downgrading it
+      failed++;
+    } else {
+      img.ai_generated_alt_text = altText.text;
+      img.alt_text_provenance = altText.provenance;
+      regenerated++;
+      // Save after each image so an interrupted run keeps its progress
+      saveImagesYaml(data);
+    }
+    console.log();
+  }
+
+  console.log("═".repeat(50));
+  console.log(`✓ Regenerated: ${regenerated}`);
+  if (failed > 0) {
+    console.warn(`⚠ Failed: ${failed}`);
+  }
+}
+
+main().catch((error) => {
+  console.error("Fatal error:", error);
+  process.exit(1);
+});
@@ -0,0 +1,124 @@
+#!/usr/bin/env tsx
+import * as fs from "fs";
+import * as path from "path";
+import { parseArgs } from "util";
+import {
+  decodeOriginal,
+  encodeThumbnailVariants,
+  planImageVariants,
+  writeThumbnail,
+  writeVariants,
+} from "./lib/derivatives";
+import { loadImagesYaml, saveImagesYaml, type ThumbnailCrop } from "./lib/manifest";
+import { ORIGINALS_DIR, PUBLIC_IMAGES_DIR } from "./lib/paths";
+import { computeThumbnailPlaceholder } from "./lib/placeholder";
+import { computeThumbnailCrop, resolveCropStrategy } from "./lib/smart-crop";
+import {
+  VISION_CLI_OPTIONS,
+  createVisionProvider,
+  resolveVisionOptions,
+} from "./lib/vision";
+import { getVariantFilenames } from "../src/lib/variants";
+
+const USAGE = `Usage:
+  pnpm set-thumbnail-crop <id> --left <px> --top <px> [--size <px>]
+  pnpm set-thumbnail-crop <id> --strategy saliency|entropy|vision|center`;
+
+function parsePixels(value: string | undefined, name: string): number | undefined {
+  if (value === undefined) return undefined;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new Error(`Invalid --${name}: ${value}`);
+  }
+  return parsed;
+}
+
+/**
+ * Override the thumbnail crop of one image, either with an explicit box
+ * (in pixels of the full image) or by re-running an automatic strategy,
+ * then regenerate just that thumbnail.
+ */
+async function main() {
+  const { values, positionals } = parseArgs({
+    options: {
+      ...VISION_CLI_OPTIONS,
+      left: { type: "string" },
+      top: { type: "string" },
+      size: { type: "string" },
+      strategy: { type: "string" },
+    },
+    allowPositionals: true,
+  });
+
+  const id = Number(positionals[0]);
+  const left = parsePixels(values.left, "left");
+  const top = parsePixels(values.top, "top");
+  const manual = left !== undefined || top !== undefined;
+  if (!Number.isInteger(id) || manual === (values.strategy !== undefined)) {
+    console.error(USAGE);
+    process.exit(1);
+  }
+
+  const data = await loadImagesYaml();
+  const entry = data.images.find((img) => img.id === id);
+  if (!entry) {
+    throw new Error(`No image with id ${id}`);
+  }
+
+  console.log(`Processing: ${entry.id} (${entry.original_path})`);
+  const { image, width, height } = await decodeOriginal(
+    path.join(ORIGINALS_DIR, entry.original_path)
+  );
+  if (width !== entry.width || height !== entry.height) {
+    throw new Error(
+      `Original is ${width}x${height} but the manifest says ${entry.width}x${entry.height}`
+    );
+  }
+
+  let crop: ThumbnailCrop;
+  if (manual) {
+    if (left === undefined || top === undefined) {
+      throw new Error("--left and --top must be given together");
+    }
+    const size = parsePixels(values.size, "size") ?? Math.min(width, height);
+    if (size === 0 || left + size > width || top + size > height) {
+      throw new Error(`Crop ${left},${top} (${size}px) does not fit in ${width}x${height}`);
+    }
+    crop = { left, top, size, strategy: "manual" };
+  } else {
+    const strategy = resolveCropStrategy(values.strategy);
+    const vision =
+      strategy === "vision" ? createVisionProvider(resolveVisionOptions(values)) : undefined;
+    crop = await computeThumbnailCrop(image, width, height, strategy, vision);
+  }
+
+  await writeThumbnail(image, crop, path.join(PUBLIC_IMAGES_DIR, entry.thumbnail_filename));
+  entry.thumbnail_crop = crop;
+
+  if (entry.variants) {
+    // A different crop size can change which widths are worth generating
+    const previous = getVariantFilenames(entry.thumbnail_filename, entry.variants.thumbnail);
+    const thumbnail = planImageVariants(width, crop).thumbnail;
+    const written = writeVariants(
+      entry.thumbnail_filename,
+      await encodeThumbnailVariants(image, crop, thumbnail)
+    );
+    for (const file of previous.filter((file) => !written.includes(file))) {
+      fs.rmSync(path.join(PUBLIC_IMAGES_DIR, file), { force: true });
+    }
+    entry.variants = { ...entry.variants, thumbnail };
+  }
+  if (entry.placeholder) {
+    entry.placeholder.thumbnail = await computeThumbnailPlaceholder(image, crop);
+  }
+  saveImagesYaml(data);
+
+  console.log(
+    `  💾 Saved: ${entry.thumbnail_filename} (${crop.strategy} crop at ${crop.left},${crop.top}, ${crop.size}px)`
+  );
+}
+
+main().catch((error) => {
+  console.error("Fatal error:", error);
+  process.exit(1);
+});
@@ -0,0 +1,143 @@
+#!/usr/bin/env tsx
+import * as fs from "fs";
+import * as path from "path";
+import { loadImagesYaml } from "./lib/manifest";
+import { STATIC_EXPORT_DIR } from "./lib/paths";
+import { getReferencedFiles } from "./lib/verify";
+import { SITE_CONFIG } from "../src/lib/config";
+import { NEIGHBORHOODS } from "../src/lib/neighborhoods";
+import { TAG_VOCABULARY } from "../src/lib/tags";
+import { slugify } from "../src/lib/utils";
+
+/**
+ * Check a static export (`pnpm build:static`) before uploading it: every
+ * page generateStaticParams asks for, the feed, every file in the manifest
+ * and every local URL the pages and the feed point at must exist in out/,
+ * and every entry must have responsive variants.
+ */
+
+/**
+ * The file a static host would serve for a URL path, if any
+ */
+function resolveOutFile(urlPath: string): string | null {
+  const decoded = decodeURIComponent(urlPath);
+  const candidates = decoded.endsWith("/")
+    ? [`${decoded}index.html`]
+    : [decoded, `${decoded}.html`, `${decoded}/index.html`];
+  for (const candidate of candidates) {
+    const file = path.join(STATIC_EXPORT_DIR, candidate);
+    if (fs.existsSync(file) && fs.statSync(file).isFile()) return file;
+  }
+  return null;
+}
+
+/**
+ * Local URL paths referenced from an HTML or XML document: attributes,
+ * srcset candidates and absolute URLs on the site's own domain
+ */
+function findLocalReferences(content: string): string[] {
+  const references = new Set<string>();
+  const attributes = content.matchAll(/\b(src|href|srcset|imagesrcset|content)="([^"]+)"/gi);
+  const urls = [...attributes].flatMap(([, name, value]) =>
+    name.toLowerCase().endsWith("srcset")
+      ? value.split(/,\s+/).map((candidate) => candidate.split(/\s+/)[0])
+      : [value]
+  );
+  const siteUrlPattern = SITE_CONFIG.url.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  const siteUrls = content.match(new RegExp(`${siteUrlPattern}/[^"'<>\\s\\\\]*`, "g")) ?? [];
+
+  for (const raw of [...urls, ...siteUrls]) {
+    const url = raw.replace(/&amp;/g, "&");
+    let urlPath: string | null = null;
+    if (url.startsWith(`${SITE_CONFIG.url}/`)) {
+      urlPath = url.substring(SITE_CONFIG.url.length);
+    } else if (url.startsWith("/") && !url.startsWith("//")) {
+      urlPath = url;
+    }
+    if (urlPath) references.add(urlPath.split(/[?#]/)[0]);
+  }
+  return [...references];
+}
+
+/**
+ * Exported files under a directory named `_`, relative to out/
+ */
+function findPlaceholderOutput(): string[] {
+  return fs
+    .readdirSync(STATIC_EXPORT_DIR, { recursive: true, encoding: "utf-8" })
+    .filter((file) => path.dirname(file).split(path.sep).includes("_"));
+}
+
+async function main() {
+  if (!fs.existsSync(STATIC_EXPORT_DIR)) {
+    console.error(`No static export found in ${STATIC_EXPORT_DIR}, run pnpm build:static`);
+    process.exit(1);
+  }
+
+  const data = await loadImagesYaml();
+  const problems: string[] = [];
+
+  // Same params as generateStaticParams in src/app/{image,tag,neighborhood}
+  const neighborhoods = NEIGHBORHOODS.map(slugify);
+  const pages = [
+    "/",
+    "/404",
+    "/feed.xml",
+    "/search-index.json",
+    "/navigation-index.json",
+    "/tag/",
+    "/neighborhood/",
+    "/map/",
+    "/slideshow/",
+    ...data.images.map((img) => `/image/${img.id}/`),
+    ...TAG_VOCABULARY.flatMap((tag) => [`/tag/${tag}/`, `/tag/${tag}/feed.xml`]),
+    ...neighborhoods.flatMap((slug) => [
+      `/neighborhood/${slug}/`,
+      `/neighborhood/${slug}/feed.xml`,
+    ]),
+  ];
+  for (const page of pages) {
+    if (!resolveOutFile(page)) problems.push(`page ${page} was not exported`);
+  }
+
+  // Browse routes always have params, so a `_` placeholder page or feed
+  // (what Next renders to fill an empty generateStaticParams) never belongs
+  for (const file of findPlaceholderOutput()) {
+    problems.push(`${file} is placeholder output`);
+  }
+
+  // The static loader cannot resize, so an entry without variants would be
+  // served at full size everywhere, grid thumbnails included
+  for (const img of data.images) {
+    if (!img.variants) problems.push(`entry ${img.id} has no variants, run pnpm generate-variants`);
+  }
+
+  for (const file of getReferencedFiles(data.images)) {
+    if (!resolveOutFile(`/images/${file}`)) problems.push(`images/${file} is missing`);
+  }
+
+  let checked = 0;
+  for (const page of pages) {
+    const file = resolveOutFile(page);
+    if (!file) continue;
+    for (const reference of findLocalReferences(fs.readFileSync(file, "utf-8"))) {
+      checked++;
+      if (!resolveOutFile(reference)) problems.push(`${page} links to missing ${reference}`);
+    }
+  }
+
+  console.log(`Checked ${pages.length} pages, ${checked} references`);
+  for (const problem of [...new Set(problems)]) {
+    console.log(`  ❌ ${problem}`);
+  }
+  if (problems.length > 0) {
+    console.log(`Found ${problems.length} problem(s)`);
+    process.exit(1);
+  }
+  console.log("✓ Static export is complete");
+}
+
+main().catch((error) => {
+  console.error("Fatal error:", error);
+  process.exit(1);
+});
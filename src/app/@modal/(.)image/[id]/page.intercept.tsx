@@ -0,0 +1,30 @@
+import { notFound } from "next/navigation";
+import { SlideshowModal } from "@/components/SlideshowModal";
+import { getAllImages } from "@/lib/images";
+import { getSlideshowData } from "@/lib/slideshow";
+
+interface PageProps {
+  params: Promise<{ id: string }>;
+}
+
+export function generateStaticParams() {
+  return getAllImages().map((img) => ({
+    id: String(img.id),
+  }));
+}
+
+/**
+ * `/image/[id]` opened from within the site: the slideshow over the page
+ * it was opened from, which stays mounted with its scroll position. A
+ * reload or a shared link gets the standalone page instead.
+ */
+export default async function ImageModal({ params }: PageProps) {
+  const { id } = await params;
+  const data = getSlideshowData(id);
+
+  if (!data) {
+    notFound();
+  }
+
+  return <SlideshowModal {...data} />;
+}
@@ -0,0 +1,6 @@
+/**
+ * Nothing in the modal slot unless an image is opened from a page
+ */
+export default function Default() {
+  return null;
+}
@@ -1,72 +1,18 @@
 import { SITE_CONFIG } from "@/lib/config";
+import { buildRssFeed } from "@/lib/feed";
 import { getAllImages } from "@/lib/images";
 
-function escapeXml(text: string): string {
-  return text
-    .replace(/&/g, "&amp;")
-    .replace(/</g, "&lt;")
-    .replace(/>/g, "&gt;")
-    .replace(/"/g, "&quot;")
-    .replace(/'/g, "&apos;");
-}
-
-function formatRssTitle(date: Date, timezone: string): string {
-  return (
-    "Taken on " +
-    date.toLocaleDateString("en-US", {
-      month: "short",
-      day: "numeric",
-      year: "numeric",
-      timeZone: timezone,
-    }) +
-    " at " +
-    date.toLocaleTimeString("en-US", {
-      hour: "numeric",
-      minute: "2-digit",
-      timeZone: timezone,
-    })
-  );
-}
+// Rendered once at build time, so the static export emits out/feed.xml
+export const dynamic = "force-static";
 
 export async function GET() {
-  const images = getAllImages();
-
-  // Sort by id descending (newest images first)
-  const sortedImages = [...images].sort((a, b) => b.id - a.id);
-
-  const items = sortedImages
-    .map((img) => {
-      const title = formatRssTitle(new Date(img.taken_at), img.timezone);
-      const description = img.description
-        ? `<img src="${SITE_CONFIG.url}/images/${img.filename}" alt="${img.ai_generated_alt_text}" /><p>${escapeXml(img.description)}</p>`
-        : `<img src="${SITE_CONFIG.url}/images/${img.filename}" alt="${img.ai_generated_alt_text}" />`;
-
-      return `
-    <item>
-      <title>${escapeXml(title)}</title>
-      <link>${SITE_CONFIG.url}/image/${img.id}</link>
-      <description><![CDATA[${description}]]></description>
-      <pubDate>${new Date(img.taken_at).toUTCString()}</pubDate>
-      <guid isPermaLink="true">${SITE_CONFIG.url}/image/${img.id}</guid>
-    </item>`;
-    })
-    .join("");
-
-  const rss = `<?xml version="1.0" encoding="UTF-8"?>
-<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">
-  <channel>
-    <title>${escapeXml(SITE_CONFIG.name)}</title>
-    <link>${SITE_CONFIG.url}</link>
-    <description>${escapeXml(SITE_CONFIG.description)}</description>
-    <atom:link href="${SITE_CONFIG.url}/feed.xml" rel="self" type="application/rss+xml"/>${items}
-  </channel>
-</rss>`;
-
-  return new Response(rss, {
-    headers: {
-      "Content-Type": "application/xml",
-      "Cache-Control": "public, max-age=3600",
+  return buildRssFeed(
+    {
+      title: SITE_CONFIG.name,
+      description: SITE_CONFIG.description,
+      path: "",
+      feedPath: "/feed.xml",
     },
-  });
+    getAllImages()
+  );
 }
-
@@ -1,8 +1,12 @@
+import { Suspense } from "react";
 import { notFound } from "next/navigation";
 import type { Metadata } from "next";
+import { ContextualSlideshow } from "@/components/ContextualSlideshow";
 import { Slideshow } from "@/components/Slideshow";
-import { getImageById, getAdjacentImages, getAllImages } from "@/lib/images";
+import { getImageById, getAllImages } from "@/lib/images";
 import { SITE_CONFIG } from "@/lib/config";
+import { getSlideshowData } from "@/lib/slideshow";
+import { formatPlace } from "@/lib/utils";
 
 interface PageProps {
   params: Promise<{ id: string }>;
@@ -20,12 +24,14 @@ export async function generateMetadata({ params }: PageProps): Promise<Metadata>
   }
 
   const desc = image.description || image.ai_generated_alt_text;
+  const placeLabel = formatPlace(image.place);
+  const title = placeLabel ? `${placeLabel} | ${SITE_CONFIG.name}` : SITE_CONFIG.name;
 
   return {
-    title: SITE_CONFIG.name,
+    title,
     description: desc,
     openGraph: {
-      title: SITE_CONFIG.name,
+      title,
       description: desc,
       images: [`${SITE_CONFIG.url}/images/${image.filename}`],
       url: `${SITE_CONFIG.url}/image/${image.id}`,
@@ -46,20 +52,18 @@ export function generateStaticParams() {
 
 export default async function ImagePage({ params }: PageProps) {
   const { id } = await params;
-  const imageId = parseInt(id, 10);
-
-  if (isNaN(imageId)) {
-    notFound();
-  }
+  const data = getSlideshowData(id);
 
-  const image = getImageById(imageId);
-
-  if (!image) {
+  if (!data) {
     notFound();
   }
 
-  const { prev, next } = getAdjacentImages(imageId);
-
-  return <Slideshow image={image} prevImages={prev} nextImages={next} />;
+  return (
+    // The view to step through is in the query string, only known in the
+    // browser: prerender with the whole gallery's neighbors
+    <Suspense fallback={<Slideshow {...data} />}>
+      <ContextualSlideshow {...data} />
+    </Suspense>
+  );
 }
 
@@ -38,8 +38,11 @@ export const metadata: Metadata = {
 
 export default function RootLayout({
   children,
+  modal,
 }: Readonly<{
   children: React.ReactNode;
+  /** The slideshow, when an image is opened from a page */
+  modal: React.ReactNode;
 }>) {
   return (
     <html lang="en">
@@ -55,6 +58,7 @@ export default function RootLayout({
         className={`${spaceGrotesk.variable} ${jetbrainsMono.variable} antialiased`}
       >
         {children}
+        {modal}
       </body>
     </html>
   );
@@ -0,0 +1,24 @@
+import type { Metadata } from "next";
+import { Header } from "@/components/Header";
+import { MapView } from "@/components/MapView";
+import { getBasemap } from "@/lib/basemap";
+import { SITE_CONFIG } from "@/lib/config";
+import { getAllImages } from "@/lib/images";
+import { toMapMarkers } from "@/lib/map";
+
+export const metadata: Metadata = {
+  title: `Map | ${SITE_CONFIG.name}`,
+};
+
+export default function MapPage() {
+  const markers = toMapMarkers(getAllImages());
+
+  return (
+    <div className="min-h-screen">
+      <Header />
+      <main className="max-w-6xl mx-auto px-2 sm:px-4 py-4">
+        <MapView areas={getBasemap()} markers={markers} />
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,14 @@
+import { getAllImages } from "@/lib/images";
+import { buildNavigationIndex } from "@/lib/navigation";
+
+// Built once at build time and fetched by the slideshow when opened from a
+// filtered view
+export const dynamic = "force-static";
+
+export async function GET() {
+  return Response.json(buildNavigationIndex(getAllImages()), {
+    headers: {
+      "Cache-Control": "public, max-age=3600",
+    },
+  });
+}
@@ -0,0 +1,31 @@
+import { SITE_CONFIG } from "@/lib/config";
+import { buildRssFeed } from "@/lib/feed";
+import { getImagesByNeighborhood } from "@/lib/images";
+import { NEIGHBORHOODS, findNeighborhoodBySlug } from "@/lib/neighborhoods";
+import { slugify } from "@/lib/utils";
+
+// One feed per neighborhood page, rendered at build time
+export const dynamic = "force-static";
+export const dynamicParams = false;
+
+export function generateStaticParams() {
+  return NEIGHBORHOODS.map((name) => ({ slug: slugify(name) }));
+}
+
+export async function GET(_request: Request, { params }: { params: Promise<{ slug: string }> }) {
+  const { slug } = await params;
+  const neighborhood = findNeighborhoodBySlug(slug);
+  if (!neighborhood) {
+    return new Response("Not Found", { status: 404 });
+  }
+
+  return buildRssFeed(
+    {
+      title: `${SITE_CONFIG.name}: ${neighborhood}`,
+      description: `Ads seen in ${neighborhood}, San Francisco`,
+      path: `/neighborhood/${slug}`,
+      feedPath: `/neighborhood/${slug}/feed.xml`,
+    },
+    getImagesByNeighborhood(slug)
+  );
+}
@@ -0,0 +1,60 @@
+import { notFound } from "next/navigation";
+import type { Metadata } from "next";
+import { BrowseHeading } from "@/components/BrowseHeading";
+import { Header } from "@/components/Header";
+import { ImageGrid } from "@/components/ImageGrid";
+import { SITE_CONFIG } from "@/lib/config";
+import { getImagesByNeighborhood } from "@/lib/images";
+import { NEIGHBORHOODS, findNeighborhoodBySlug } from "@/lib/neighborhoods";
+import { slugify } from "@/lib/utils";
+
+interface PageProps {
+  params: Promise<{ slug: string }>;
+}
+
+// Every neighborhood gets a page, even before anything was seen there
+export const dynamicParams = false;
+
+export function generateStaticParams() {
+  return NEIGHBORHOODS.map((name) => ({ slug: slugify(name) }));
+}
+
+export async function generateMetadata({ params }: PageProps): Promise<Metadata> {
+  const { slug } = await params;
+  const neighborhood = findNeighborhoodBySlug(slug);
+  if (!neighborhood) {
+    return { title: "Neighborhood Not Found" };
+  }
+
+  const title = `${neighborhood} | ${SITE_CONFIG.name}`;
+  return {
+    title,
+    openGraph: { title, url: `${SITE_CONFIG.url}/neighborhood/${slug}` },
+    alternates: { types: { "application/rss+xml": `/neighborhood/${slug}/feed.xml` } },
+  };
+}
+
+export default async function NeighborhoodPage({ params }: PageProps) {
+  const { slug } = await params;
+  const neighborhood = findNeighborhoodBySlug(slug);
+  if (!neighborhood) {
+    notFound();
+  }
+
+  const images = getImagesByNeighborhood(slug);
+
+  return (
+    <div className="min-h-screen">
+      <Header />
+      <main className="max-w-6xl mx-auto px-2 sm:px-4 py-4">
+        <BrowseHeading
+          title={neighborhood}
+          count={images.length}
+          feedPath={`/neighborhood/${slug}/feed.xml`}
+          back={{ href: "/neighborhood", label: "All neighborhoods" }}
+        />
+        <ImageGrid images={images} context={{ kind: "neighborhood", slug }} />
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+import type { Metadata } from "next";
+import { Header } from "@/components/Header";
+import { TermList } from "@/components/TermList";
+import { SITE_CONFIG } from "@/lib/config";
+import { getNeighborhoods } from "@/lib/images";
+
+export const metadata: Metadata = {
+  title: `Neighborhoods | ${SITE_CONFIG.name}`,
+};
+
+export default function NeighborhoodIndexPage() {
+  const neighborhoods = getNeighborhoods();
+
+  return (
+    <div className="min-h-screen">
+      <Header />
+      <main className="max-w-6xl mx-auto px-4 py-4">
+        {neighborhoods.length === 0 ? (
+          <p className="text-neutral-500">No geocoded images yet.</p>
+        ) : (
+          <TermList
+            terms={neighborhoods.map(({ slug, name, count }) => ({
+              href: `/neighborhood/${slug}`,
+              label: name,
+              count,
+            }))}
+          />
+        )}
+      </main>
+    </div>
+  );
+}
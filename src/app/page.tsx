@@ -1,4 +1,6 @@
+import { Suspense } from "react";
 import { Header } from "@/components/Header";
+import { HomeGallery } from "@/components/HomeGallery";
 import { ImageGrid } from "@/components/ImageGrid";
 import { getAllImages } from "@/lib/images";
 
@@ -9,7 +11,10 @@ export default function Home() {
     <div className="min-h-screen">
       <Header />
       <main className="max-w-6xl mx-auto px-2 sm:px-4 py-4">
-        <ImageGrid images={images} />
+        {/* The search query is only known in the browser: prerender everything */}
+        <Suspense fallback={<ImageGrid images={images} />}>
+          <HomeGallery images={images} />
+        </Suspense>
       </main>
     </div>
   );
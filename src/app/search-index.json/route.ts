@@ -0,0 +1,13 @@
+import { getAllImages } from "@/lib/images";
+import { buildSearchIndex } from "@/lib/search";
+
+// Built once at build time and fetched by the search box on demand
+export const dynamic = "force-static";
+
+export async function GET() {
+  return Response.json(buildSearchIndex(getAllImages()), {
+    headers: {
+      "Cache-Control": "public, max-age=3600",
+    },
+  });
+}
@@ -0,0 +1,21 @@
+import { Suspense } from "react";
+import type { Metadata } from "next";
+import { KioskSlideshow } from "@/components/KioskSlideshow";
+import { SITE_CONFIG } from "@/lib/config";
+import { getAllImages } from "@/lib/images";
+
+export const metadata: Metadata = {
+  title: `Slideshow | ${SITE_CONFIG.name}`,
+};
+
+/**
+ * Autoplaying kiosk mode, e.g. `/slideshow?interval=10&shuffle=1`
+ */
+export default function SlideshowPage() {
+  return (
+    // Options come from the query string, only known in the browser
+    <Suspense fallback={<div className="fixed inset-0 bg-black" />}>
+      <KioskSlideshow images={getAllImages()} />
+    </Suspense>
+  );
+}
@@ -0,0 +1,29 @@
+import { SITE_CONFIG } from "@/lib/config";
+import { buildRssFeed } from "@/lib/feed";
+import { getImagesByTag } from "@/lib/images";
+import { TAG_LABELS, TAG_VOCABULARY, isTag } from "@/lib/tags";
+
+// One feed per tag page, rendered at build time
+export const dynamic = "force-static";
+export const dynamicParams = false;
+
+export function generateStaticParams() {
+  return TAG_VOCABULARY.map((tag) => ({ tag }));
+}
+
+export async function GET(_request: Request, { params }: { params: Promise<{ tag: string }> }) {
+  const { tag } = await params;
+  if (!isTag(tag)) {
+    return new Response("Not Found", { status: 404 });
+  }
+
+  return buildRssFeed(
+    {
+      title: `${SITE_CONFIG.name}: ${TAG_LABELS[tag]}`,
+      description: `${TAG_LABELS[tag]} ads from San Francisco`,
+      path: `/tag/${tag}`,
+      feedPath: `/tag/${tag}/feed.xml`,
+    },
+    getImagesByTag(tag)
+  );
+}
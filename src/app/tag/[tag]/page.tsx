@@ -0,0 +1,57 @@
+import { notFound } from "next/navigation";
+import type { Metadata } from "next";
+import { BrowseHeading } from "@/components/BrowseHeading";
+import { Header } from "@/components/Header";
+import { ImageGrid } from "@/components/ImageGrid";
+import { SITE_CONFIG } from "@/lib/config";
+import { getImagesByTag } from "@/lib/images";
+import { TAG_LABELS, TAG_VOCABULARY, isTag } from "@/lib/tags";
+
+interface PageProps {
+  params: Promise<{ tag: string }>;
+}
+
+// Every tag in the vocabulary gets a page, even before anything has it
+export const dynamicParams = false;
+
+export function generateStaticParams() {
+  return TAG_VOCABULARY.map((tag) => ({ tag }));
+}
+
+export async function generateMetadata({ params }: PageProps): Promise<Metadata> {
+  const { tag } = await params;
+  if (!isTag(tag)) {
+    return { title: "Tag Not Found" };
+  }
+
+  const title = `${TAG_LABELS[tag]} | ${SITE_CONFIG.name}`;
+  return {
+    title,
+    openGraph: { title, url: `${SITE_CONFIG.url}/tag/${tag}` },
+    alternates: { types: { "application/rss+xml": `/tag/${tag}/feed.xml` } },
+  };
+}
+
+export default async function TagPage({ params }: PageProps) {
+  const { tag } = await params;
+  if (!isTag(tag)) {
+    notFound();
+  }
+
+  const images = getImagesByTag(tag);
+
+  return (
+    <div className="min-h-screen">
+      <Header />
+      <main className="max-w-6xl mx-auto px-2 sm:px-4 py-4">
+        <BrowseHeading
+          title={TAG_LABELS[tag]}
+          count={images.length}
+          feedPath={`/tag/${tag}/feed.xml`}
+          back={{ href: "/tag", label: "All tags" }}
+        />
+        <ImageGrid images={images} context={{ kind: "tag", tag }} />
+      </main>
+    </div>
+  );
+}
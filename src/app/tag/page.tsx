@@ -0,0 +1,43 @@
+import type { Metadata } from "next";
+import { Header } from "@/components/Header";
+import { TermList } from "@/components/TermList";
+import { SITE_CONFIG } from "@/lib/config";
+import { getTagCounts } from "@/lib/images";
+import { AD_CATEGORIES, AD_MEDIA, AD_THEMES, TAG_LABELS, type Tag } from "@/lib/tags";
+
+export const metadata: Metadata = {
+  title: `Tags | ${SITE_CONFIG.name}`,
+};
+
+const GROUPS: Array<{ title: string; tags: readonly Tag[] }> = [
+  { title: "Categories", tags: AD_CATEGORIES },
+  { title: "Media", tags: AD_MEDIA },
+  { title: "Themes", tags: AD_THEMES },
+];
+
+export default function TagIndexPage() {
+  const counts = getTagCounts();
+
+  return (
+    <div className="min-h-screen">
+      <Header />
+      <main className="max-w-6xl mx-auto px-4 py-4 space-y-8">
+        {counts.length === 0 && <p className="text-neutral-500">No tagged images yet.</p>}
+        {GROUPS.map(({ title, tags }) => {
+          const terms = counts
+            .filter(({ tag }) => tags.includes(tag))
+            .map(({ tag, count }) => ({ href: `/tag/${tag}`, label: TAG_LABELS[tag], count }));
+          if (terms.length === 0) return null;
+          return (
+            <section key={title}>
+              <h2 className="text-sm font-mono uppercase tracking-wider text-neutral-500 mb-3">
+                {title}
+              </h2>
+              <TermList terms={terms} />
+            </section>
+          );
+        })}
+      </main>
+    </div>
+  );
+}
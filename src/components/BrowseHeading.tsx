@@ -0,0 +1,37 @@
+import Link from "next/link";
+
+interface BrowseHeadingProps {
+  title: string;
+  count: number;
+  /** RSS feed of this view */
+  feedPath?: string;
+  /** Index page this view belongs to */
+  back?: { href: string; label: string };
+}
+
+export function BrowseHeading({ title, count, feedPath, back }: BrowseHeadingProps) {
+  return (
+    <div className="flex flex-wrap items-baseline gap-x-4 gap-y-1 px-2 sm:px-0 pb-4">
+      {back && (
+        <Link
+          href={back.href}
+          className="w-full text-xs font-mono text-neutral-500 hover:text-neutral-900 transition-colors"
+        >
+          ← {back.label}
+        </Link>
+      )}
+      <h2 className="text-lg font-bold tracking-tight text-neutral-900">{title}</h2>
+      <span className="text-sm font-mono text-neutral-500">
+        {count} {count === 1 ? "ad" : "ads"}
+      </span>
+      {feedPath && (
+        <a
+          href={feedPath}
+          className="ml-auto text-xs font-mono text-orange-500 hover:text-orange-600 transition-colors"
+        >
+          RSS
+        </a>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { useSearchParams } from "next/navigation";
+import {
+  getContextNeighbors,
+  loadNavigationIndex,
+  parseNavigationContext,
+  type NavigationIndex,
+} from "@/lib/navigation";
+import { loadSearchIndex, type SearchIndex } from "@/lib/search";
+import { Slideshow } from "./Slideshow";
+
+type ContextualSlideshowProps = React.ComponentProps<typeof Slideshow>;
+
+/**
+ * The slideshow, stepping through the view named in the URL (`?tag=`,
+ * `?neighborhood=`, `?q=`) rather than the whole gallery. The neighbors
+ * passed in are the global ones, used when there is no view.
+ */
+export function ContextualSlideshow(props: ContextualSlideshowProps) {
+  const searchParams = useSearchParams();
+  const context = useMemo(() => parseNavigationContext(searchParams), [searchParams]);
+  const hasContext = context !== null;
+  const needsSearch = context?.kind === "search";
+  const [indexes, setIndexes] = useState<{
+    navigation: NavigationIndex;
+    search: SearchIndex | null;
+  } | null>(null);
+
+  useEffect(() => {
+    if (!hasContext) return;
+    let cancelled = false;
+    Promise.all([loadNavigationIndex(), needsSearch ? loadSearchIndex() : null]).then(
+      ([navigation, search]) => {
+        if (!cancelled) setIndexes({ navigation, search });
+      },
+      (error) => console.error("Navigation index failed to load:", error)
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [hasContext, needsSearch]);
+
+  const neighbors = useMemo(
+    () =>
+      context && indexes
+        ? getContextNeighbors(props.image.id, context, indexes.navigation, indexes.search)
+        : null,
+    [context, indexes, props.image.id]
+  );
+
+  if (!context) {
+    return <Slideshow {...props} />;
+  }
+
+  if (!indexes) {
+    // No stepping until the view is known, rather than stepping out of it
+    return <Slideshow {...props} prevImages={[]} nextImages={[]} context={context} />;
+  }
+
+  if (!neighbors) {
+    // Not part of the view (anymore): the whole gallery it is
+    return <Slideshow {...props} />;
+  }
+
+  return (
+    <Slideshow {...props} prevImages={neighbors.prev} nextImages={neighbors.next} context={context} />
+  );
+}
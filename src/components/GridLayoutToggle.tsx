@@ -0,0 +1,32 @@
+"use client";
+
+import { GRID_LAYOUTS, type GridLayout } from "@/lib/grid-layout";
+
+interface GridLayoutToggleProps {
+  layout: GridLayout;
+  onChange: (layout: GridLayout) => void;
+}
+
+const LABELS: Record<GridLayout, string> = {
+  square: "Square",
+  justified: "Full frame",
+};
+
+export function GridLayoutToggle({ layout, onChange }: GridLayoutToggleProps) {
+  return (
+    <div className="flex gap-3 text-xs font-mono" role="group" aria-label="Grid layout">
+      {GRID_LAYOUTS.map((option) => (
+        <button
+          key={option}
+          onClick={() => onChange(option)}
+          aria-pressed={layout === option}
+          className={`transition-colors ${
+            layout === option ? "text-neutral-900" : "text-neutral-400 hover:text-neutral-700"
+          }`}
+        >
+          {LABELS[option]}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -1,17 +1,34 @@
 "use client";
 
+import { Suspense } from "react";
 import Link from "next/link";
 import { SITE_CONFIG } from "@/lib/config";
+import { SearchBox } from "./SearchBox";
 
 export function Header() {
   return (
     <header className="sticky top-0 z-40 bg-[var(--color-background)]/80 backdrop-blur-md border-b border-neutral-200">
-      <div className="max-w-6xl mx-auto px-4 py-4">
+      <div className="max-w-6xl mx-auto px-4 py-4 flex flex-wrap items-center justify-between gap-x-4 gap-y-2">
         <Link href="/" className="inline-block">
           <h1 className="text-xl font-bold tracking-tight text-neutral-900 hover:text-neutral-600 transition-colors">
             {SITE_CONFIG.name}
           </h1>
         </Link>
+        {/* Reads the query string, so it only renders in the browser */}
+        <Suspense fallback={<div className="flex-1 max-w-xs" />}>
+          <SearchBox />
+        </Suspense>
+        <nav className="flex gap-4 text-sm font-mono text-neutral-500">
+          <Link href="/tag" className="hover:text-neutral-900 transition-colors">
+            Tags
+          </Link>
+          <Link href="/neighborhood" className="hover:text-neutral-900 transition-colors">
+            Neighborhoods
+          </Link>
+          <Link href="/map" className="hover:text-neutral-900 transition-colors">
+            Map
+          </Link>
+        </nav>
       </div>
     </header>
   );
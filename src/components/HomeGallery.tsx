@@ -0,0 +1,54 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { useSearchParams } from "next/navigation";
+import { BrowseHeading } from "./BrowseHeading";
+import { ImageGrid } from "./ImageGrid";
+import { loadSearchIndex, search, type SearchIndex } from "@/lib/search";
+import type { ImageEntry } from "@/lib/types";
+
+interface HomeGalleryProps {
+  images: ImageEntry[];
+}
+
+/**
+ * Every image, or the results for the `?q=` search query
+ */
+export function HomeGallery({ images }: HomeGalleryProps) {
+  const query = useSearchParams().get("q")?.trim() ?? "";
+  const [index, setIndex] = useState<SearchIndex | null>(null);
+
+  useEffect(() => {
+    if (query && !index) {
+      loadSearchIndex().then(setIndex, (error) => {
+        console.error("Search index failed to load:", error);
+      });
+    }
+  }, [query, index]);
+
+  const results = useMemo(() => {
+    if (!query || !index) return null;
+    const byId = new Map(images.map((img) => [img.id, img]));
+    return search(index, query).flatMap((id) => byId.get(id) ?? []);
+  }, [images, index, query]);
+
+  if (!query) {
+    return <ImageGrid images={images} />;
+  }
+
+  if (!results) {
+    return <p className="px-2 sm:px-0 text-sm font-mono text-neutral-500">Searching…</p>;
+  }
+
+  return (
+    <>
+      <BrowseHeading title={`“${query}”`} count={results.length} />
+      {results.length === 0 ? (
+        <p className="px-2 sm:px-0 text-neutral-500">No ads match this search.</p>
+      ) : (
+        // Remount per query so infinite scroll starts from the top
+        <ImageGrid key={query} images={results} context={{ kind: "search", query }} />
+      )}
+    </>
+  );
+}
@@ -1,26 +1,46 @@
 "use client";
 
-import Image from "next/image";
 import Link from "next/link";
+import { ResponsiveImage } from "./ResponsiveImage";
 import type { ImageEntry } from "@/lib/types";
-import { SITE_CONFIG } from "@/lib/config";
+import { getGridImageSource, type GridLayout } from "@/lib/grid-layout";
+import { getImageHref, type NavigationContext } from "@/lib/navigation";
+import { getBlurProps } from "@/lib/utils";
 
 interface ImageCardProps {
   image: ImageEntry;
+  context?: NavigationContext | null;
+  layout?: GridLayout;
   priority?: boolean;
 }
 
-export function ImageCard({ image, priority = false }: ImageCardProps) {
+export function ImageCard({
+  image,
+  context = null,
+  layout = "square",
+  priority = false,
+}: ImageCardProps) {
+  const { filename, variants, kind, sizes } = getGridImageSource(image, layout);
+
   return (
     <Link
-      href={`/image/${image.id}`}
-      className="group block relative aspect-square overflow-hidden bg-neutral-100 rounded-sm"
+      href={getImageHref(image.id, context)}
+      className={`group block relative overflow-hidden bg-neutral-100 rounded-sm ${
+        layout === "square" ? "aspect-square" : ""
+      }`}
+      style={{
+        backgroundColor: image.placeholder?.color,
+        // Reserve the image's own shape before it loads
+        aspectRatio: layout === "justified" ? `${image.width} / ${image.height}` : undefined,
+      }}
     >
-      <Image
-        src={`/images/${image.thumbnail_filename}`}
+      <ResponsiveImage
+        filename={filename}
+        variants={variants}
+        {...getBlurProps(image.placeholder, kind)}
         alt={image.ai_generated_alt_text}
         fill
-        sizes={`(max-width: 640px) 50vw, (max-width: 1024px) 33vw, ${SITE_CONFIG.gridThumbnailSize}px`}
+        sizes={sizes}
         className="object-cover transition-transform duration-300 group-hover:scale-105"
         priority={priority}
       />
@@ -1,20 +1,28 @@
 "use client";
 
-import Image from "next/image";
+import { GridLayoutToggle } from "./GridLayoutToggle";
 import { ImageCard } from "./ImageCard";
+import { ResponsiveImage } from "./ResponsiveImage";
+import { useGridLayout } from "@/hooks/useGridLayout";
 import { useInfiniteScroll } from "@/hooks/useInfiniteScroll";
 import { SITE_CONFIG } from "@/lib/config";
+import { getGridImageSource, JUSTIFIED_ROW_HEIGHT } from "@/lib/grid-layout";
+import type { NavigationContext } from "@/lib/navigation";
+import { getBlurProps } from "@/lib/utils";
 import type { ImageEntry } from "@/lib/types";
 
 interface ImageGridProps {
   images: ImageEntry[];
+  /** The view these images are, so the slideshow steps through it */
+  context?: NavigationContext | null;
 }
 
-export function ImageGrid({ images }: ImageGridProps) {
+export function ImageGrid({ images, context = null }: ImageGridProps) {
   const { visibleItems, hasMore, sentinelRef } = useInfiniteScroll({
     items: images,
     batchSize: SITE_CONFIG.gridBatchSize,
   });
+  const [layout, setLayout] = useGridLayout();
 
   // Preload the next batch of images that will become visible
   const preloadItems = hasMore
@@ -38,16 +46,42 @@ export function ImageGrid({ images }: ImageGridProps) {
 
   return (
     <div className="space-y-4">
-      <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-1 sm:gap-2">
-        {visibleItems.map((image, index) => (
-          <div
-            key={image.id}
-            className="animate-fadeIn"
-            style={{ animationDelay: `${Math.min(index * 50, 500)}ms` }}
-          >
-            <ImageCard image={image} priority={index < 8} />
-          </div>
-        ))}
+      <div className="flex justify-end px-2 sm:px-0 -mb-2">
+        <GridLayoutToggle layout={layout} onChange={setLayout} />
+      </div>
+
+      {/*
+        Justified rows in CSS alone: each image grows in proportion to its
+        aspect ratio, so a row shares one height. No measuring, so nothing
+        moves after hydration, and a new batch only extends the last row,
+        which the trailing spacer keeps from stretching.
+      */}
+      <div
+        className={
+          layout === "justified"
+            ? "flex flex-wrap gap-1 sm:gap-2 [--row-height:140px] sm:[--row-height:200px] lg:[--row-height:var(--row-height-lg)] after:content-[''] after:grow-[1000]"
+            : "grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-1 sm:gap-2"
+        }
+        style={{ "--row-height-lg": `${JUSTIFIED_ROW_HEIGHT}px` } as React.CSSProperties}
+      >
+        {visibleItems.map((image, index) => {
+          const aspect = image.width / image.height;
+          return (
+            <div
+              key={image.id}
+              className="animate-fadeIn"
+              style={{
+                animationDelay: `${Math.min(index * 50, 500)}ms`,
+                ...(layout === "justified" && {
+                  flexGrow: aspect,
+                  flexBasis: `calc(var(--row-height) * ${aspect})`,
+                }),
+              }}
+            >
+              <ImageCard image={image} context={context} layout={layout} priority={index < 8} />
+            </div>
+          );
+        })}
       </div>
 
       {/* Infinite scroll sentinel */}
@@ -60,17 +94,22 @@ export function ImageGrid({ images }: ImageGridProps) {
       {/* Hidden preload images for upcoming batch - positioned off-screen */}
       {preloadItems.length > 0 && (
         <div className="absolute -top-full -left-full opacity-0 pointer-events-none">
-          {preloadItems.map((image) => (
-            <div key={`preload-grid-${image.id}`} className="w-0 h-0 relative">
-              <Image
-                src={`/images/${image.thumbnail_filename}`}
-                alt=""
-                fill
-                priority={false}
-                sizes={`(max-width: 640px) 50vw, (max-width: 1024px) 33vw, ${SITE_CONFIG.gridThumbnailSize}px`}
-              />
-            </div>
-          ))}
+          {preloadItems.map((image) => {
+            const { filename, variants, kind, sizes } = getGridImageSource(image, layout);
+            return (
+              <div key={`preload-grid-${image.id}`} className="w-0 h-0 relative">
+                <ResponsiveImage
+                  filename={filename}
+                  variants={variants}
+                  {...getBlurProps(image.placeholder, kind)}
+                  alt=""
+                  fill
+                  priority={false}
+                  sizes={sizes}
+                />
+              </div>
+            );
+          })}
         </div>
       )}
     </div>
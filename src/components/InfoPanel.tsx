@@ -0,0 +1,185 @@
+import Link from "next/link";
+import { TAG_LABELS } from "@/lib/tags";
+import type {
+  AltTextProvenance,
+  ImageEntry,
+  LocationPrivacy,
+  LocationSource,
+  TakenAtSource,
+} from "@/lib/types";
+import { formatDateTime, formatPlace, slugify } from "@/lib/utils";
+
+interface InfoPanelProps {
+  image: ImageEntry;
+  open: boolean;
+  onClose: () => void;
+}
+
+const TAKEN_AT_SOURCE_LABELS: Record<TakenAtSource, string> = {
+  exif: "from EXIF",
+  xmp: "from the XMP sidecar",
+  takeout: "from Google Takeout",
+  override: "set by hand",
+  file_mtime: "file date, approximate",
+};
+
+const LOCATION_SOURCE_LABELS: Record<LocationSource, string> = {
+  exif: "GPS from EXIF",
+  xmp: "GPS from the XMP sidecar",
+  takeout: "GPS from Google Takeout",
+  override: "set by hand",
+  inferred: "inferred from photos taken around the same time",
+};
+
+const PRIVACY_LABELS: Record<LocationPrivacy, string> = {
+  exact: "exact",
+  fuzzed: "approximate (rounded to a ~100 m grid)",
+  snapped: "moved to a nearby public point",
+  hidden: "hidden",
+};
+
+function describeProvenance({ status, model }: AltTextProvenance): string {
+  if (status === "human") return "Written by hand";
+  if (status === "fallback") return "Placeholder, not generated yet";
+  return model ? `Generated by ${model}` : "Generated";
+}
+
+function Row({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <div className="py-2 border-b border-white/10 last:border-0">
+      <dt className="text-[11px] uppercase tracking-wider text-neutral-500">{label}</dt>
+      <dd className="mt-0.5 text-sm text-neutral-200 break-words">{children}</dd>
+    </div>
+  );
+}
+
+function Note({ children }: { children: React.ReactNode }) {
+  return <span className="block text-xs text-neutral-500">{children}</span>;
+}
+
+/**
+ * Everything known about an image, in a drawer beside the slideshow on
+ * desktop and a bottom sheet on phones. Always rendered, so it can slide.
+ */
+export function InfoPanel({ image, open, onClose }: InfoPanelProps) {
+  const placeLabel = formatPlace(image.place);
+  const megapixels = ((image.width * image.height) / 1e6).toFixed(1);
+
+  return (
+    <aside
+      className={`fixed z-20 inset-x-0 bottom-0 max-h-[70vh] rounded-t-xl sm:inset-x-auto sm:top-0 sm:right-0 sm:w-96 sm:max-h-none sm:rounded-none overflow-y-auto bg-neutral-900/95 backdrop-blur-md px-5 pb-6 pt-3 shadow-2xl transition-transform duration-300 ease-out ${
+        open ? "translate-y-0 sm:translate-x-0" : "translate-y-full sm:translate-y-0 sm:translate-x-full"
+      }`}
+      aria-label="Image details"
+      aria-hidden={!open}
+      inert={!open}
+    >
+      {/* Grab handle on the bottom sheet */}
+      <div className="mx-auto mb-2 h-1 w-10 rounded-full bg-white/20 sm:hidden" />
+
+      <div className="flex items-center justify-between">
+        <h2 className="font-mono text-sm text-neutral-400">#{image.id}</h2>
+        <button
+          onClick={onClose}
+          className="p-2 -mr-2 text-white/60 hover:text-white transition-colors"
+          aria-label="Close details"
+        >
+          ×
+        </button>
+      </div>
+
+      <dl>
+        {image.description && <Row label="Description">{image.description}</Row>}
+
+        <Row label="Alt text">
+          {image.ai_generated_alt_text}
+          <Note>{describeProvenance(image.alt_text_provenance)}</Note>
+        </Row>
+
+        {image.ad && (
+          <Row label="Ad">
+            {image.ad.brand ?? "Unknown brand"}
+            {image.ad.copy && (
+              <span className="block mt-1 whitespace-pre-line text-neutral-400">“{image.ad.copy}”</span>
+            )}
+            <Note>
+              {TAG_LABELS[image.ad.category]}
+              {image.ad.medium && ` · ${TAG_LABELS[image.ad.medium]}`}
+            </Note>
+          </Row>
+        )}
+
+        {image.tags.length > 0 && (
+          <Row label="Tags">
+            <span className="flex flex-wrap gap-1.5 mt-1">
+              {image.tags.map((tag) => (
+                <Link
+                  key={tag}
+                  href={`/tag/${tag}`}
+                  className="rounded-full border border-white/20 px-2.5 py-0.5 text-xs text-neutral-300 hover:border-white/50 hover:text-white transition-colors"
+                >
+                  {TAG_LABELS[tag]}
+                </Link>
+              ))}
+            </span>
+          </Row>
+        )}
+
+        <Row label="Taken">
+          {formatDateTime(image.taken_at, image.timezone)}
+          <Note>{TAKEN_AT_SOURCE_LABELS[image.taken_at_source]}</Note>
+        </Row>
+
+        <Row label="Imported">{formatDateTime(image.imported_at, image.timezone)}</Row>
+
+        <Row label="Location">
+          {image.location ? (
+            <>
+              {placeLabel && (
+                <span className="block">
+                  {image.place?.street}
+                  {image.place?.street && image.place.neighborhood && ", "}
+                  {image.place?.neighborhood && (
+                    <Link
+                      href={`/neighborhood/${slugify(image.place.neighborhood)}`}
+                      className="underline decoration-white/30 hover:decoration-white"
+                    >
+                      {image.place.neighborhood}
+                    </Link>
+                  )}
+                </span>
+              )}
+              <a
+                href={`https://www.openstreetmap.org/?mlat=${image.location.lat}&mlon=${image.location.lng}#map=18/${image.location.lat}/${image.location.lng}`}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="font-mono text-xs underline decoration-white/30 hover:decoration-white"
+              >
+                {image.location.lat.toFixed(5)}, {image.location.lng.toFixed(5)}
+              </a>
+              <Note>
+                {LOCATION_SOURCE_LABELS[image.location_source]}, {PRIVACY_LABELS[image.location_privacy]}
+              </Note>
+            </>
+          ) : (
+            <span className="text-neutral-500">Not published</span>
+          )}
+          <Note>{image.timezone}</Note>
+        </Row>
+
+        <Row label="Dimensions">
+          {image.width} × {image.height} px
+          <Note>{megapixels} MP</Note>
+        </Row>
+
+        <Row label="File">
+          <span className="font-mono text-xs">{image.filename}</span>
+          <Note>Original: {image.original_path}</Note>
+          <Note>
+            <span className="font-mono">{image.original_hash.slice(0, 19)}…</span>
+          </Note>
+        </Row>
+      </dl>
+    </aside>
+  );
+}
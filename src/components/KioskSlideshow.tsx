@@ -0,0 +1,313 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { useRouter, useSearchParams } from "next/navigation";
+import { SITE_CONFIG } from "@/lib/config";
+import type { ImageEntry } from "@/lib/types";
+import { formatFilmDate, formatPlace, getBlurProps } from "@/lib/utils";
+import { PreloadImages } from "./PreloadImages";
+import { ResponsiveImage } from "./ResponsiveImage";
+
+interface KioskSlideshowProps {
+  images: ImageEntry[];
+}
+
+interface KioskOptions {
+  intervalSeconds: number;
+  shuffle: boolean;
+}
+
+interface Playlist {
+  order: ImageEntry[];
+  index: number;
+  /** Shown underneath while the current image fades in */
+  previous: ImageEntry | null;
+}
+
+const MIN_INTERVAL_SECONDS = 3;
+const MAX_INTERVAL_SECONDS = 3600;
+/** Controls and cursor hide after this long without input */
+const IDLE_MS = 3000;
+const PRELOAD_DEPTH = 2;
+const KIOSK_SIZES = "100vw";
+
+/**
+ * `?interval=10&shuffle=1`; anything missing or invalid gets the default
+ */
+function parseKioskOptions(params: URLSearchParams): KioskOptions {
+  const interval = Number(params.get("interval"));
+  return {
+    intervalSeconds:
+      params.has("interval") && Number.isFinite(interval)
+        ? Math.min(MAX_INTERVAL_SECONDS, Math.max(MIN_INTERVAL_SECONDS, interval))
+        : SITE_CONFIG.kioskIntervalSeconds,
+    shuffle: ["1", "true", "yes"].includes(params.get("shuffle") ?? ""),
+  };
+}
+
+/**
+ * One pass over every image: oldest first, or shuffled. A new shuffle never
+ * starts with the image the previous one ended on.
+ */
+function makeLoop(images: ImageEntry[], shuffle: boolean, after?: ImageEntry): ImageEntry[] {
+  if (!shuffle) {
+    return [...images].sort(
+      (a, b) => Date.parse(a.taken_at) - Date.parse(b.taken_at) || a.id - b.id
+    );
+  }
+  const loop = [...images];
+  for (let i = loop.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [loop[i], loop[j]] = [loop[j], loop[i]];
+  }
+  if (loop.length > 1 && loop[0] === after) {
+    [loop[0], loop[1]] = [loop[1], loop[0]];
+  }
+  return loop;
+}
+
+/**
+ * Full-screen autoplay for a wall display: crossfades through the gallery
+ * forever, keeps the screen awake and hides its controls when left alone.
+ * Space pauses, arrows step, F toggles fullscreen.
+ */
+export function KioskSlideshow({ images }: KioskSlideshowProps) {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const { intervalSeconds, shuffle } = parseKioskOptions(searchParams);
+
+  const [playlist, setPlaylist] = useState<Playlist>(() => ({
+    order: makeLoop(images, shuffle),
+    index: 0,
+    previous: null,
+  }));
+  const [paused, setPaused] = useState(false);
+  const [idle, setIdle] = useState(false);
+  const [isFullscreen, setIsFullscreen] = useState(false);
+
+  const loopLength = images.length;
+  const current = playlist.order[playlist.index] ?? null;
+  const upcoming = playlist.order.slice(playlist.index + 1, playlist.index + 1 + PRELOAD_DEPTH);
+
+  const step = useCallback(
+    (delta: 1 | -1) => {
+      setPlaylist(({ order, index }) => {
+        const nextIndex = index + delta;
+        if (nextIndex < 0) return { order, index, previous: null };
+
+        let nextOrder = order;
+        // Queue the following loop early enough to preload into it
+        if (nextIndex + PRELOAD_DEPTH >= order.length) {
+          nextOrder = [...order, ...makeLoop(images, shuffle, order[order.length - 1])];
+        }
+        const previous = order[index];
+        // Forget loops already played
+        if (nextIndex >= loopLength * 2) {
+          return { order: nextOrder.slice(loopLength), index: nextIndex - loopLength, previous };
+        }
+        return { order: nextOrder, index: nextIndex, previous };
+      });
+    },
+    [images, shuffle, loopLength]
+  );
+
+  const toggleFullscreen = useCallback(() => {
+    if (document.fullscreenElement) {
+      document.exitFullscreen();
+    } else {
+      document.documentElement.requestFullscreen().catch((error) => {
+        console.warn("Fullscreen refused:", error);
+      });
+    }
+  }, []);
+
+  // Advance after the interval; restarts whenever the image changes
+  useEffect(() => {
+    if (paused || loopLength < 2) return;
+    const timer = setTimeout(() => step(1), intervalSeconds * 1000);
+    return () => clearTimeout(timer);
+  }, [current, paused, intervalSeconds, loopLength, step]);
+
+  // Keep the display from sleeping. The browser drops the lock when the
+  // tab is hidden, so take it again when it comes back.
+  useEffect(() => {
+    if (!("wakeLock" in navigator)) return;
+    let sentinel: WakeLockSentinel | null = null;
+    let cancelled = false;
+
+    const acquire = async () => {
+      if (document.visibilityState !== "visible") return;
+      try {
+        const lock = await navigator.wakeLock.request("screen");
+        if (cancelled) {
+          lock.release();
+        } else {
+          sentinel = lock;
+        }
+      } catch (error) {
+        console.warn("Wake lock refused:", error);
+      }
+    };
+
+    acquire();
+    document.addEventListener("visibilitychange", acquire);
+    return () => {
+      cancelled = true;
+      document.removeEventListener("visibilitychange", acquire);
+      sentinel?.release();
+    };
+  }, []);
+
+  // Hide cursor and controls when idle
+  useEffect(() => {
+    let timer = setTimeout(() => setIdle(true), IDLE_MS);
+    const wake = () => {
+      setIdle(false);
+      clearTimeout(timer);
+      timer = setTimeout(() => setIdle(true), IDLE_MS);
+    };
+    const events = ["mousemove", "mousedown", "touchstart", "keydown"] as const;
+    events.forEach((event) => window.addEventListener(event, wake));
+    return () => {
+      clearTimeout(timer);
+      events.forEach((event) => window.removeEventListener(event, wake));
+    };
+  }, []);
+
+  useEffect(() => {
+    const handleChange = () => setIsFullscreen(Boolean(document.fullscreenElement));
+    document.addEventListener("fullscreenchange", handleChange);
+    return () => document.removeEventListener("fullscreenchange", handleChange);
+  }, []);
+
+  // Keyboard controls
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "ArrowLeft") {
+        step(-1);
+      } else if (e.key === "ArrowRight") {
+        step(1);
+      } else if (e.key === " ") {
+        e.preventDefault();
+        setPaused((p) => !p);
+      } else if (e.key === "f" || e.key === "F") {
+        toggleFullscreen();
+      } else if (e.key === "Escape" && !document.fullscreenElement) {
+        router.push("/");
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [step, toggleFullscreen, router]);
+
+  if (!current) {
+    return (
+      <div className="fixed inset-0 bg-black flex items-center justify-center text-neutral-500 font-mono text-sm">
+        No ads yet
+      </div>
+    );
+  }
+
+  const layers =
+    playlist.previous && playlist.previous.id !== current.id
+      ? [playlist.previous, current]
+      : [current];
+
+  return (
+    <div
+      className={`fixed inset-0 z-50 bg-black overflow-hidden ${idle ? "cursor-none" : ""}`}
+    >
+      {/* The current image fades in over the previous one */}
+      {layers.map((img) => (
+        <div
+          key={img.id}
+          className={`absolute inset-0 bg-black flex items-center justify-center ${
+            img === current && layers.length > 1 ? "animate-crossfade" : ""
+          }`}
+          style={{ animationDuration: `${SITE_CONFIG.kioskCrossfadeMs}ms` }}
+        >
+          <div
+            className="relative h-full"
+            style={{
+              aspectRatio: `${img.width} / ${img.height}`,
+              maxWidth: "100%",
+              backgroundColor: img.placeholder?.color,
+            }}
+          >
+            <ResponsiveImage
+              filename={img.filename}
+              variants={img.variants?.full ?? null}
+              {...getBlurProps(img.placeholder, "full")}
+              alt={img.ai_generated_alt_text}
+              fill
+              className="object-contain"
+              sizes={KIOSK_SIZES}
+              priority
+            />
+
+            {/* Film-style date stamp */}
+            <div className="absolute bottom-2 right-2 font-mono text-xs sm:text-sm text-orange-400/70 whitespace-nowrap">
+              {formatFilmDate(
+                img.taken_at,
+                img.location,
+                img.timezone,
+                img.location_source === "inferred"
+              )}
+            </div>
+          </div>
+        </div>
+      ))}
+
+      {formatPlace(current.place) && (
+        <p
+          key={`place-${current.id}`}
+          className="absolute bottom-4 left-4 text-neutral-400 text-sm animate-fadeIn"
+        >
+          {formatPlace(current.place)}
+        </p>
+      )}
+
+      <PreloadImages images={upcoming} sizes={KIOSK_SIZES} />
+
+      {/* Controls, hidden while idle */}
+      <div
+        className={`absolute top-4 right-4 flex items-center gap-1 rounded bg-black/60 p-1 font-mono text-sm text-white/80 transition-opacity duration-500 ${
+          idle ? "opacity-0 pointer-events-none" : "opacity-100"
+        }`}
+      >
+        <span className="px-2 text-white/50">
+          {(playlist.index % loopLength) + 1} / {loopLength}
+        </span>
+        {[
+          { label: "Previous image", text: "←", onClick: () => step(-1) },
+          { label: paused ? "Play" : "Pause", text: paused ? "▶" : "❚❚", onClick: () => setPaused((p) => !p) },
+          { label: "Next image", text: "→", onClick: () => step(1) },
+          {
+            label: isFullscreen ? "Exit fullscreen" : "Fullscreen",
+            text: isFullscreen ? "⤡" : "⤢",
+            onClick: toggleFullscreen,
+          },
+        ].map(({ label, text, onClick }) => (
+          <button
+            key={label}
+            onClick={onClick}
+            className="min-w-9 h-9 px-2 rounded hover:bg-white/10 hover:text-white"
+            aria-label={label}
+            title={label}
+          >
+            {text}
+          </button>
+        ))}
+        <Link
+          href="/"
+          className="h-9 px-2 leading-9 rounded hover:bg-white/10 hover:text-white"
+          aria-label="Close"
+        >
+          ×
+        </Link>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,272 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import Link from "next/link";
+import { ResponsiveImage } from "./ResponsiveImage";
+import {
+  MAP_HEIGHT,
+  MAP_WIDTH,
+  clusterMarkers,
+  type BasemapArea,
+  type MapMarker,
+  type MarkerCluster,
+} from "@/lib/map";
+
+interface MapViewProps {
+  areas: BasemapArea[];
+  markers: MapMarker[];
+}
+
+interface Viewport {
+  x: number;
+  y: number;
+  width: number;
+}
+
+const ASPECT = MAP_HEIGHT / MAP_WIDTH;
+const FULL_VIEW: Viewport = { x: 0, y: 0, width: MAP_WIDTH };
+/** Closest zoom, as a visible width in map units (~300 m) */
+const MIN_VIEW_WIDTH = 20;
+/** Markers closer than this fraction of the visible width are clustered */
+const CLUSTER_CELL = 1 / 18;
+/** Thumbnails shown in the popup of a cluster that cannot be split */
+const MAX_POPUP_THUMBNAILS = 6;
+
+function clampView({ x, y, width }: Viewport): Viewport {
+  const w = Math.min(MAP_WIDTH, Math.max(MIN_VIEW_WIDTH, width));
+  const h = w * ASPECT;
+  return {
+    x: Math.min(MAP_WIDTH - w, Math.max(0, x)),
+    y: Math.min(MAP_HEIGHT - h, Math.max(0, y)),
+    width: w,
+  };
+}
+
+/**
+ * Zoom by `factor` keeping the map point under (fx, fy) in place.
+ * fx/fy are fractions of the viewport, 0.5 is the center.
+ */
+function zoomView(view: Viewport, factor: number, fx = 0.5, fy = 0.5): Viewport {
+  const width = Math.min(MAP_WIDTH, Math.max(MIN_VIEW_WIDTH, view.width / factor));
+  return clampView({
+    x: view.x + (view.width - width) * fx,
+    y: view.y + (view.width - width) * ASPECT * fy,
+    width,
+  });
+}
+
+/**
+ * Every located ad on an SVG map of San Francisco. Markers are clustered
+ * at the current zoom; a cluster zooms in, a single marker opens a popup.
+ * Drawn from bundled data only, no tile server.
+ */
+export function MapView({ areas, markers }: MapViewProps) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [view, setView] = useState<Viewport>(FULL_VIEW);
+  const [selected, setSelected] = useState<MarkerCluster | null>(null);
+  const drag = useRef<{ startX: number; startY: number; view: Viewport; moved: boolean } | null>(
+    null
+  );
+
+  const clusters = useMemo(
+    () => clusterMarkers(markers, view.width * CLUSTER_CELL),
+    [markers, view.width]
+  );
+  const unit = view.width / MAP_WIDTH;
+
+  // Wheel zoom needs a non-passive listener to keep the page from scrolling
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = svg.getBoundingClientRect();
+      const fx = (e.clientX - rect.left) / rect.width;
+      const fy = (e.clientY - rect.top) / rect.height;
+      setView((current) => zoomView(current, e.deltaY < 0 ? 1.25 : 0.8, fx, fy));
+    };
+    svg.addEventListener("wheel", handleWheel, { passive: false });
+    return () => svg.removeEventListener("wheel", handleWheel);
+  }, []);
+
+  const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    drag.current = { startX: e.clientX, startY: e.clientY, view, moved: false };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    const current = drag.current;
+    if (!current || !svgRef.current) return;
+    const dx = e.clientX - current.startX;
+    const dy = e.clientY - current.startY;
+    if (!current.moved && Math.hypot(dx, dy) < 4) return;
+    if (!current.moved) svgRef.current.setPointerCapture(e.pointerId);
+    current.moved = true;
+    const scale = current.view.width / svgRef.current.getBoundingClientRect().width;
+    setView(clampView({ ...current.view, x: current.view.x - dx * scale, y: current.view.y - dy * scale }));
+  };
+
+  const handlePointerUp = () => {
+    // Keep the drag state until the click event has seen it
+    setTimeout(() => (drag.current = null));
+  };
+
+  const selectCluster = (cluster: MarkerCluster) => {
+    if (drag.current?.moved) return;
+    const canSplit =
+      cluster.markers.length > 1 &&
+      view.width > MIN_VIEW_WIDTH &&
+      cluster.markers.some(
+        (m) => m.point.x !== cluster.point.x || m.point.y !== cluster.point.y
+      );
+    if (!canSplit) {
+      setSelected(cluster);
+      return;
+    }
+    const width = Math.max(MIN_VIEW_WIDTH, view.width / 3);
+    setSelected(null);
+    setView(
+      clampView({
+        x: cluster.point.x - width / 2,
+        y: cluster.point.y - (width * ASPECT) / 2,
+        width,
+      })
+    );
+  };
+
+  const popup =
+    selected && clusters.some((c) => c.markers.includes(selected.markers[0])) ? selected : null;
+
+  return (
+    <div className="relative w-full rounded-sm bg-sky-50 border border-neutral-200">
+      <svg
+        ref={svgRef}
+        viewBox={`${view.x} ${view.y} ${view.width} ${view.width * ASPECT}`}
+        className="block w-full h-auto touch-none select-none cursor-grab active:cursor-grabbing"
+        role="img"
+        aria-label={`Map of ${markers.length} ad locations in San Francisco`}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      >
+        <g fill="#f5f5f4" stroke="#d4d4d4" strokeWidth={unit * 1.2} strokeLinejoin="round">
+          {areas.map((area) => (
+            <path key={area.name} d={area.d} />
+          ))}
+        </g>
+
+        {/* Neighborhood names once zoomed in enough to read them */}
+        {view.width < MAP_WIDTH / 2.5 && (
+          <g fill="#a3a3a3" fontSize={unit * 11} textAnchor="middle" className="font-mono">
+            {areas.map((area) => (
+              <text key={area.name} x={area.center.x} y={area.center.y}>
+                {area.name}
+              </text>
+            ))}
+          </g>
+        )}
+
+        {clusters.map((cluster) => {
+          const count = cluster.markers.length;
+          const radius = unit * (count > 1 ? 9 + Math.min(count, 50) / 5 : 6);
+          return (
+            <g
+              key={cluster.markers.map((m) => m.id).join("-")}
+              className="cursor-pointer"
+              onClick={() => selectCluster(cluster)}
+            >
+              <circle
+                cx={cluster.point.x}
+                cy={cluster.point.y}
+                r={radius}
+                fill={count > 1 ? "#ea580c" : "#f97316"}
+                fillOpacity={0.9}
+                stroke="white"
+                strokeWidth={unit * 1.5}
+                strokeDasharray={
+                  count === 1 && cluster.markers[0].inferred ? `${unit * 3} ${unit * 2}` : undefined
+                }
+              />
+              {count > 1 && (
+                <text
+                  x={cluster.point.x}
+                  y={cluster.point.y}
+                  dy="0.35em"
+                  fill="white"
+                  fontSize={unit * 10}
+                  textAnchor="middle"
+                  className="font-mono pointer-events-none"
+                >
+                  {count}
+                </text>
+              )}
+            </g>
+          );
+        })}
+      </svg>
+
+      {/* Selected marker(s): thumbnails linking to the slideshow */}
+      {popup && (
+        <div
+          className="absolute z-10 -translate-x-1/2 -translate-y-full -mt-3 bg-white rounded shadow-lg p-1.5 flex gap-1.5"
+          style={{
+            left: `${((popup.point.x - view.x) / view.width) * 100}%`,
+            top: `${((popup.point.y - view.y) / (view.width * ASPECT)) * 100}%`,
+          }}
+        >
+          {popup.markers.slice(0, MAX_POPUP_THUMBNAILS).map((marker) => (
+            <Link
+              key={marker.id}
+              href={`/image/${marker.id}`}
+              className="relative block w-24 h-24 overflow-hidden rounded-sm bg-neutral-100"
+            >
+              <ResponsiveImage
+                filename={marker.thumbnail_filename}
+                variants={marker.thumbnail_variants}
+                alt={marker.alt}
+                fill
+                sizes="96px"
+                className="object-cover"
+              />
+            </Link>
+          ))}
+          {popup.markers.length > MAX_POPUP_THUMBNAILS && (
+            <span className="self-center px-1 text-xs font-mono text-neutral-500">
+              +{popup.markers.length - MAX_POPUP_THUMBNAILS}
+            </span>
+          )}
+          <button
+            onClick={() => setSelected(null)}
+            className="absolute -top-2 -right-2 w-5 h-5 rounded-full bg-neutral-800 text-white text-xs leading-none"
+            aria-label="Close"
+          >
+            ×
+          </button>
+        </div>
+      )}
+
+      {/* Zoom controls */}
+      <div className="absolute top-2 right-2 flex flex-col gap-1">
+        {[
+          { label: "Zoom in", text: "+", factor: 2 },
+          { label: "Zoom out", text: "−", factor: 0.5 },
+        ].map(({ label, text, factor }) => (
+          <button
+            key={label}
+            onClick={() => setView((current) => zoomView(current, factor))}
+            className="w-8 h-8 rounded bg-white/90 border border-neutral-200 text-neutral-700 hover:text-neutral-900 font-mono"
+            aria-label={label}
+          >
+            {text}
+          </button>
+        ))}
+      </div>
+
+      {areas.length === 0 && (
+        <p className="absolute bottom-2 left-2 text-xs font-mono text-neutral-500">
+          Neighborhood outlines unavailable
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,51 @@
+import Link from "next/link";
+import { METERS_PER_MAP_UNIT, projectLocation, type BasemapArea } from "@/lib/map";
+import type { ImageLocation } from "@/lib/types";
+
+/** Half the width of the area shown, in meters */
+export const MINI_MAP_RADIUS_METERS = 800;
+
+interface MiniMapProps {
+  location: ImageLocation;
+  /** Basemap shapes around the location (getBasemap with the same radius) */
+  areas: BasemapArea[];
+  inferred?: boolean;
+}
+
+/**
+ * Small map centered on one image's location, linking to the full map
+ */
+export function MiniMap({ location, areas, inferred = false }: MiniMapProps) {
+  const center = projectLocation(location);
+  const radius = MINI_MAP_RADIUS_METERS / METERS_PER_MAP_UNIT;
+  const unit = radius / 50;
+
+  return (
+    <Link
+      href="/map"
+      className="block w-24 h-24 sm:w-28 sm:h-28 overflow-hidden rounded-sm bg-neutral-800/80 opacity-70 hover:opacity-100 transition-opacity"
+      aria-label="Show on the map"
+    >
+      <svg
+        viewBox={`${center.x - radius} ${center.y - radius} ${radius * 2} ${radius * 2}`}
+        className="block w-full h-full"
+        aria-hidden="true"
+      >
+        <g fill="#404040" stroke="#737373" strokeWidth={unit * 0.8} strokeLinejoin="round">
+          {areas.map((area) => (
+            <path key={area.name} d={area.d} />
+          ))}
+        </g>
+        <circle
+          cx={center.x}
+          cy={center.y}
+          r={unit * (inferred ? 12 : 5)}
+          fill={inferred ? "#fb923c33" : "#fb923c"}
+          stroke="#fb923c"
+          strokeWidth={unit * 1.5}
+          strokeDasharray={inferred ? `${unit * 4} ${unit * 3}` : undefined}
+        />
+      </svg>
+    </Link>
+  );
+}
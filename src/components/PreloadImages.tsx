@@ -0,0 +1,33 @@
+import type { NeighborImage } from "@/lib/navigation";
+import { getBlurProps } from "@/lib/utils";
+import { ResponsiveImage } from "./ResponsiveImage";
+
+interface PreloadImagesProps {
+  images: NeighborImage[];
+  /** Must match the `sizes` of the visible image, so the browser caches the variant it will pick */
+  sizes: string;
+}
+
+/**
+ * Hidden full-size images to warm the cache for what is shown next.
+ * Positioned off-screen to avoid layout issues.
+ */
+export function PreloadImages({ images, sizes }: PreloadImagesProps) {
+  return (
+    <div className="absolute -top-full -left-full opacity-0 pointer-events-none" aria-hidden>
+      {images.map((img) => (
+        <div key={img.id} className="w-96 h-96 relative">
+          <ResponsiveImage
+            filename={img.filename}
+            variants={img.variants?.full ?? null}
+            {...getBlurProps(img.placeholder, "full")}
+            alt=""
+            fill
+            priority={false}
+            sizes={sizes}
+          />
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+import Image, { getImageProps, type ImageProps } from "next/image";
+import {
+  getVariantFilename,
+  pickVariantWidth,
+  type VariantFormat,
+  type VariantSet,
+} from "@/lib/variants";
+
+interface ResponsiveImageProps extends Omit<ImageProps, "src" | "loader"> {
+  /** File in public/images the variants were made from */
+  filename: string;
+  /** Pre-generated variants, or null to fall back to the image optimizer */
+  variants: VariantSet | null;
+}
+
+function buildSrcSet(filename: string, widths: number[], format: VariantFormat): string {
+  return widths
+    .map((width) => `/images/${getVariantFilename(filename, width, format)} ${width}w`)
+    .join(", ");
+}
+
+/**
+ * `next/image` served from the variants generated at import time: AVIF and
+ * WebP sources with a JPEG fallback, so the optimizer is never involved.
+ *
+ * A `placeholder="blur"` preview is painted as the img background and stays
+ * there; the opaque image covers it once it has loaded.
+ */
+export function ResponsiveImage({ filename, variants, alt, ...props }: ResponsiveImageProps) {
+  if (!variants) {
+    return <Image src={`/images/${filename}`} alt={alt} {...props} />;
+  }
+
+  const fallbackFormat = variants.formats.includes("jpeg")
+    ? "jpeg"
+    : variants.formats[variants.formats.length - 1];
+  const { props: imgProps } = getImageProps({
+    ...props,
+    alt,
+    src: `/images/${filename}`,
+    loader: ({ width }) =>
+      `/images/${getVariantFilename(filename, pickVariantWidth(variants.widths, width), fallbackFormat)}`,
+  });
+
+  return (
+    <picture>
+      {variants.formats
+        .filter((format) => format !== fallbackFormat)
+        .map((format) => (
+          <source
+            key={format}
+            type={`image/${format}`}
+            srcSet={buildSrcSet(filename, variants.widths, format)}
+            sizes={imgProps.sizes}
+          />
+        ))}
+      <img
+        {...imgProps}
+        alt={alt}
+        srcSet={buildSrcSet(filename, variants.widths, fallbackFormat)}
+      />
+    </picture>
+  );
+}
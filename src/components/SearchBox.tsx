@@ -0,0 +1,44 @@
+"use client";
+
+import { useState } from "react";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+
+/**
+ * Search input for the header. On the home page results update as you
+ * type; elsewhere Enter takes you there. The query lives in `/?q=`, so
+ * results can be shared.
+ */
+export function SearchBox() {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const [query, setQuery] = useState(pathname === "/" ? (searchParams.get("q") ?? "") : "");
+
+  const show = (value: string, navigate: "replace" | "push") => {
+    const url = value.trim() ? `/?q=${encodeURIComponent(value.trim())}` : "/";
+    router[navigate](url, { scroll: false });
+  };
+
+  return (
+    <form
+      role="search"
+      onSubmit={(e) => {
+        e.preventDefault();
+        show(query, pathname === "/" ? "replace" : "push");
+      }}
+      className="flex-1 max-w-xs"
+    >
+      <input
+        type="search"
+        value={query}
+        onChange={(e) => {
+          setQuery(e.target.value);
+          if (pathname === "/") show(e.target.value, "replace");
+        }}
+        placeholder="Search ads"
+        aria-label="Search ads"
+        className="w-full rounded-full border border-neutral-200 bg-white/70 px-3 py-1 text-sm text-neutral-900 placeholder:text-neutral-400 focus:border-neutral-400 focus:outline-none"
+      />
+    </form>
+  );
+}
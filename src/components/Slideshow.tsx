@@ -1,44 +1,142 @@
 "use client";
 
-import { useEffect, useCallback, useRef } from "react";
-import Image from "next/image";
+import { useEffect, useCallback, useRef, useState } from "react";
 import Link from "next/link";
 import { useRouter } from "next/navigation";
 import type { ImageEntry } from "@/lib/types";
-import { formatFilmDate } from "@/lib/utils";
+import type { BasemapArea } from "@/lib/map";
+import {
+  getContextHref,
+  getImageHref,
+  type NavigationContext,
+  type NeighborImage,
+} from "@/lib/navigation";
+import { formatFilmDate, formatPlace, getBlurProps } from "@/lib/utils";
+import { useSlideshowGestures } from "@/hooks/useSlideshowGestures";
+import { InfoPanel } from "./InfoPanel";
+import { MiniMap } from "./MiniMap";
+import { PreloadImages } from "./PreloadImages";
+import { ResponsiveImage } from "./ResponsiveImage";
+
+const FULL_SIZES =
+  "(max-width: 640px) calc(100vw - 2rem), (max-width: 1280px) calc(100vw - 8rem), 1024px";
+
+/**
+ * A neighbor shown beside the current image while swiping towards it
+ */
+function SwipePreview({ image, side }: { image: NeighborImage; side: "prev" | "next" }) {
+  return (
+    <div
+      className={`absolute inset-0 flex items-center justify-center pointer-events-none ${
+        side === "prev" ? "-translate-x-full" : "translate-x-full"
+      }`}
+      aria-hidden
+    >
+      <div
+        className="relative h-full"
+        style={{
+          aspectRatio: `${image.width} / ${image.height}`,
+          maxHeight: "85vh",
+          maxWidth: "100%",
+          backgroundColor: image.placeholder?.color,
+        }}
+      >
+        <ResponsiveImage
+          filename={image.filename}
+          variants={image.variants?.full ?? null}
+          {...getBlurProps(image.placeholder, "full")}
+          alt=""
+          fill
+          className="object-contain"
+          sizes={FULL_SIZES}
+        />
+      </div>
+    </div>
+  );
+}
 
 interface SlideshowProps {
   image: ImageEntry;
-  prevImages: ImageEntry[];
-  nextImages: ImageEntry[];
+  prevImages: NeighborImage[];
+  nextImages: NeighborImage[];
+  /** Basemap around the image's location, for the mini-map */
+  miniMapAreas: BasemapArea[];
+  /**
+   * Shown over the page it was opened from: stepping replaces the history
+   * entry and closing goes back to that page, scroll position intact
+   */
+  modal?: boolean;
+  /** The view it was opened from: stepping stays within it, closing returns to it */
+  context?: NavigationContext | null;
 }
 
-export function Slideshow({ image, prevImages, nextImages }: SlideshowProps) {
+export function Slideshow({
+  image,
+  prevImages,
+  nextImages,
+  miniMapAreas,
+  modal = false,
+  context = null,
+}: SlideshowProps) {
   const router = useRouter();
   const containerRef = useRef<HTMLDivElement>(null);
+  const [infoOpen, setInfoOpen] = useState(false);
 
   // Get immediate prev/next for navigation
   const prevImage = prevImages[0] ?? null;
   const nextImage = nextImages[0] ?? null;
+  const placeLabel = formatPlace(image.place);
 
-  // Hidden preload images using Next.js Image components
-  // These go through Next.js optimization pipeline unlike browser Image API
+  const goTo = useCallback(
+    (target: NeighborImage) => {
+      const href = getImageHref(target.id, context);
+      if (modal) {
+        router.replace(href, { scroll: false });
+      } else {
+        router.push(href);
+      }
+    },
+    [modal, context, router]
+  );
 
   const goToPrev = useCallback(() => {
     if (prevImage) {
-      router.push(`/image/${prevImage.id}`);
+      goTo(prevImage);
     }
-  }, [prevImage, router]);
+  }, [prevImage, goTo]);
 
   const goToNext = useCallback(() => {
     if (nextImage) {
-      router.push(`/image/${nextImage.id}`);
+      goTo(nextImage);
     }
-  }, [nextImage, router]);
+  }, [nextImage, goTo]);
 
   const close = useCallback(() => {
-    router.push("/");
-  }, [router]);
+    if (modal) {
+      router.back();
+    } else {
+      router.push(getContextHref(context));
+    }
+  }, [modal, context, router]);
+
+  // Keep the page underneath from scrolling; hiding overflow keeps its position
+  useEffect(() => {
+    if (!modal) return;
+    const { overflow } = document.body.style;
+    document.body.style.overflow = "hidden";
+    return () => {
+      document.body.style.overflow = overflow;
+    };
+  }, [modal]);
+
+  const { areaRef, zoomRef, handlers, offset, scale, pan, transitionMs } = useSlideshowGestures({
+    imageKey: image.id,
+    onPrev: prevImage ? goToPrev : null,
+    onNext: nextImage ? goToNext : null,
+  });
+  const transition = transitionMs
+    ? `transform ${transitionMs}ms cubic-bezier(0.25, 0.46, 0.45, 0.94)`
+    : "none";
 
   // Keyboard navigation
   useEffect(() => {
@@ -47,14 +145,21 @@ export function Slideshow({ image, prevImages, nextImages }: SlideshowProps) {
         goToPrev();
       } else if (e.key === "ArrowRight") {
         goToNext();
+      } else if (e.key === "i") {
+        setInfoOpen((open) => !open);
       } else if (e.key === "Escape") {
-        close();
+        // Close the info panel first
+        if (infoOpen) {
+          setInfoOpen(false);
+        } else {
+          close();
+        }
       }
     };
 
     window.addEventListener("keydown", handleKeyDown);
     return () => window.removeEventListener("keydown", handleKeyDown);
-  }, [goToPrev, goToNext, close]);
+  }, [goToPrev, goToNext, close, infoOpen]);
 
 
   // Click outside image to close
@@ -92,6 +197,31 @@ export function Slideshow({ image, prevImages, nextImages }: SlideshowProps) {
         </svg>
       </button>
 
+      {/* Info button */}
+      <button
+        onClick={() => setInfoOpen((open) => !open)}
+        className="absolute top-4 right-16 z-10 p-2 text-white/70 hover:text-white transition-colors"
+        aria-label="Image details"
+        aria-expanded={infoOpen}
+        title="Details (i)"
+      >
+        <svg
+          xmlns="http://www.w3.org/2000/svg"
+          width="28"
+          height="28"
+          viewBox="0 0 24 24"
+          fill="none"
+          stroke="currentColor"
+          strokeWidth="2"
+          strokeLinecap="round"
+          strokeLinejoin="round"
+        >
+          <circle cx="12" cy="12" r="10" />
+          <line x1="12" y1="16" x2="12" y2="12" />
+          <line x1="12" y1="8" x2="12.01" y2="8" />
+        </svg>
+      </button>
+
       {/* Previous button */}
       {prevImage && (
         <button
@@ -138,38 +268,86 @@ export function Slideshow({ image, prevImages, nextImages }: SlideshowProps) {
         </button>
       )}
 
-      {/* Image container */}
-      <div className="relative w-full h-full max-w-5xl max-h-[85vh] mx-4 sm:mx-16 flex items-center justify-center">
-        <div 
-          className="relative h-full"
-          style={{ 
-            aspectRatio: `${image.width} / ${image.height}`,
-            maxHeight: '85vh',
-            maxWidth: '100%',
-          }}
+      {/* Image container: swipe, pinch and double-tap on touch screens */}
+      <div
+        ref={areaRef}
+        className="relative w-full h-full max-w-5xl max-h-[85vh] mx-4 sm:mx-16 touch-none"
+        {...handlers}
+      >
+        <div
+          className="absolute inset-0 flex items-center justify-center"
+          style={{ transform: `translateX(${offset}px)`, transition }}
         >
-          <Image
-            src={`/images/${image.filename}`}
-            alt={image.ai_generated_alt_text}
-            fill
-            className="object-contain"
-            sizes="(max-width: 640px) calc(100vw - 2rem), (max-width: 1280px) calc(100vw - 8rem), 1024px"
-            priority
-          />
+          {/* Neighbors slide in from the sides while dragging */}
+          {offset > 0 && prevImage && <SwipePreview image={prevImage} side="prev" />}
+          {offset < 0 && nextImage && <SwipePreview image={nextImage} side="next" />}
+          <div
+            ref={zoomRef}
+            className="relative h-full"
+            style={{
+              aspectRatio: `${image.width} / ${image.height}`,
+              maxHeight: '85vh',
+              maxWidth: '100%',
+              backgroundColor: image.placeholder?.color,
+              transform: `translate(${pan.x}px, ${pan.y}px) scale(${scale})`,
+              transition,
+            }}
+          >
+            <ResponsiveImage
+              filename={image.filename}
+              variants={image.variants?.full ?? null}
+              {...getBlurProps(image.placeholder, "full")}
+              alt={image.ai_generated_alt_text}
+              fill
+              className="object-contain"
+              sizes={FULL_SIZES}
+              priority
+            />
 
-          {/* Film-style date stamp */}
-          <div className="absolute bottom-1 right-1 sm:bottom-2 sm:right-2 font-mono text-[10px] sm:text-xs text-orange-400/70 whitespace-nowrap">
-            {formatFilmDate(image.taken_at, image.location, image.timezone)}
+            {/* Film-style date stamp */}
+            <div
+              className="absolute bottom-1 right-1 sm:bottom-2 sm:right-2 font-mono text-[10px] sm:text-xs text-orange-400/70 whitespace-nowrap"
+              title={
+                image.location_source === "inferred"
+                  ? "Approximate location, inferred from photos taken around the same time"
+                  : undefined
+              }
+            >
+              {formatFilmDate(
+                image.taken_at,
+                image.location,
+                image.timezone,
+                image.location_source === "inferred"
+              )}
+            </div>
           </div>
         </div>
       </div>
 
-      {/* Description below image */}
-      {image.description && (
+      {/* Description and place below image */}
+      {(image.description || placeLabel) && (
         <div className="absolute bottom-8 left-0 right-0 text-center px-4">
-          <p className="text-neutral-300 text-sm sm:text-base max-w-2xl mx-auto animate-fadeIn">
-            {image.description}
-          </p>
+          {image.description && (
+            <p className="text-neutral-300 text-sm sm:text-base max-w-2xl mx-auto animate-fadeIn">
+              {image.description}
+            </p>
+          )}
+          {placeLabel && (
+            <p className="text-neutral-500 text-xs sm:text-sm max-w-2xl mx-auto animate-fadeIn">
+              {placeLabel}
+            </p>
+          )}
+        </div>
+      )}
+
+      {/* Where it was taken */}
+      {image.location && (
+        <div className="absolute bottom-4 left-4 hidden sm:block">
+          <MiniMap
+            location={image.location}
+            areas={miniMapAreas}
+            inferred={image.location_source === "inferred"}
+          />
         </div>
       )}
 
@@ -178,40 +356,19 @@ export function Slideshow({ image, prevImages, nextImages }: SlideshowProps) {
         {image.id}
       </div>
 
-      {/* Hidden preload images - positioned off-screen to avoid layout issues */}
-      <div className="absolute -top-full -left-full opacity-0 pointer-events-none">
-        {prevImages.map((img) => (
-          <div key={`preload-prev-${img.id}`} className="w-96 h-96 relative">
-            <Image
-              src={`/images/${img.filename}`}
-              alt=""
-              fill
-              priority={false}
-              sizes="(max-width: 640px) calc(100vw - 2rem), (max-width: 1280px) calc(100vw - 8rem), 1024px"
-            />
-          </div>
-        ))}
-        {nextImages.map((img) => (
-          <div key={`preload-next-${img.id}`} className="w-96 h-96 relative">
-            <Image
-              src={`/images/${img.filename}`}
-              alt=""
-              fill
-              priority={false}
-              sizes="(max-width: 640px) calc(100vw - 2rem), (max-width: 1280px) calc(100vw - 8rem), 1024px"
-            />
-          </div>
-        ))}
-      </div>
+      <InfoPanel image={image} open={infoOpen} onClose={() => setInfoOpen(false)} />
+
+      {/* Hidden preload images */}
+      <PreloadImages images={[...prevImages, ...nextImages]} sizes={FULL_SIZES} />
 
       {/* Link prefetch for adjacent pages - Next.js will preload page resources */}
       {prevImage && (
-        <Link href={`/image/${prevImage.id}`} prefetch className="hidden">
+        <Link href={getImageHref(prevImage.id, context)} prefetch className="hidden">
           <span />
         </Link>
       )}
       {nextImage && (
-        <Link href={`/image/${nextImage.id}`} prefetch className="hidden">
+        <Link href={getImageHref(nextImage.id, context)} prefetch className="hidden">
           <span />
         </Link>
       )}
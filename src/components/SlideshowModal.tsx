@@ -0,0 +1,27 @@
+"use client";
+
+import { Suspense } from "react";
+import { usePathname } from "next/navigation";
+import { ContextualSlideshow } from "./ContextualSlideshow";
+import { Slideshow } from "./Slideshow";
+
+type SlideshowModalProps = Omit<React.ComponentProps<typeof Slideshow>, "modal">;
+
+/**
+ * The slideshow in the modal slot. The slot keeps its content across
+ * client navigations, so it steps aside once a link leaves `/image/`
+ * (a tag in the info panel, the mini-map).
+ */
+export function SlideshowModal(props: SlideshowModalProps) {
+  const pathname = usePathname();
+
+  if (!pathname.startsWith("/image/")) {
+    return null;
+  }
+
+  return (
+    <Suspense fallback={<Slideshow {...props} modal />}>
+      <ContextualSlideshow {...props} modal />
+    </Suspense>
+  );
+}
@@ -0,0 +1,26 @@
+import Link from "next/link";
+
+interface TermListProps {
+  terms: Array<{ href: string; label: string; count: number }>;
+}
+
+/**
+ * Links to browse pages (tags, neighborhoods) with their image counts
+ */
+export function TermList({ terms }: TermListProps) {
+  return (
+    <ul className="flex flex-wrap gap-2">
+      {terms.map((term) => (
+        <li key={term.href}>
+          <Link
+            href={term.href}
+            className="inline-flex items-baseline gap-2 rounded-full border border-neutral-200 px-3 py-1 text-sm text-neutral-800 hover:border-neutral-400 hover:text-neutral-900 transition-colors"
+          >
+            {term.label}
+            <span className="font-mono text-xs text-neutral-500">{term.count}</span>
+          </Link>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,57 @@
+"use client";
+
+import { useCallback, useSyncExternalStore } from "react";
+import { SITE_CONFIG } from "@/lib/config";
+import { isGridLayout, type GridLayout } from "@/lib/grid-layout";
+
+const STORAGE_KEY = "grid-layout";
+
+const listeners = new Set<() => void>();
+
+/** Last choice on this page, for when storage is unavailable */
+let chosen: GridLayout | null = null;
+
+function subscribe(listener: () => void): () => void {
+  listeners.add(listener);
+  // Switching in another tab switches here too
+  window.addEventListener("storage", listener);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener("storage", listener);
+  };
+}
+
+function getSnapshot(): GridLayout {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (isGridLayout(stored)) return stored;
+  } catch {
+    // Storage can be disabled
+  }
+  return chosen ?? SITE_CONFIG.gridLayout;
+}
+
+function getServerSnapshot(): GridLayout {
+  return SITE_CONFIG.gridLayout;
+}
+
+/**
+ * The visitor's grid layout, remembered in localStorage. Pages are
+ * prerendered with the configured default, so a different choice applies
+ * right after hydration.
+ */
+export function useGridLayout(): [GridLayout, (layout: GridLayout) => void] {
+  const layout = useSyncExternalStore(subscribe, getSnapshot, getServerSnapshot);
+
+  const setLayout = useCallback((next: GridLayout) => {
+    chosen = next;
+    try {
+      localStorage.setItem(STORAGE_KEY, next);
+    } catch {
+      // Only remembered until the page is left
+    }
+    listeners.forEach((listener) => listener());
+  }, []);
+
+  return [layout, setLayout];
+}
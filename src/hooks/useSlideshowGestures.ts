@@ -0,0 +1,371 @@
+"use client";
+
+import { useState, useEffect, useCallback, useRef } from "react";
+
+interface UseSlideshowGesturesOptions {
+  /** Changes when another image is shown, resetting swipe and zoom */
+  imageKey: number;
+  onPrev: (() => void) | null;
+  onNext: (() => void) | null;
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+interface UseSlideshowGesturesResult {
+  /** The area receiving touches; sizes the swipe */
+  areaRef: React.RefObject<HTMLDivElement | null>;
+  /** The zoomed element; sizes the pan limits */
+  zoomRef: React.RefObject<HTMLDivElement | null>;
+  handlers: {
+    onTouchStart: (e: React.TouchEvent) => void;
+    onTouchMove: (e: React.TouchEvent) => void;
+    onTouchEnd: (e: React.TouchEvent) => void;
+    onTouchCancel: (e: React.TouchEvent) => void;
+  };
+  /** Horizontal drag of the image strip, in pixels */
+  offset: number;
+  scale: number;
+  pan: Point;
+  /** Length of the transition to the current state, 0 while following a finger */
+  transitionMs: number;
+}
+
+type Gesture =
+  | {
+      kind: "swipe";
+      start: Point;
+      lastX: number;
+      lastTime: number;
+      /** Pixels per millisecond, smoothed */
+      velocity: number;
+      axis: "x" | "y" | null;
+    }
+  | { kind: "pan"; last: Point }
+  | {
+      kind: "pinch";
+      startDistance: number;
+      startScale: number;
+      startPan: Point;
+      /** Midpoint of the fingers when the pinch started */
+      anchor: Point;
+      center: Point;
+    }
+  | null;
+
+const MAX_SCALE = 4;
+const DOUBLE_TAP_SCALE = 2.5;
+const DOUBLE_TAP_MS = 300;
+const DOUBLE_TAP_DISTANCE = 30;
+/** Movement before a touch counts as a drag rather than a tap */
+const DRAG_THRESHOLD = 10;
+/** Fraction of the width past which a slow drag still navigates */
+const SWIPE_DISTANCE = 0.25;
+/** A flick faster than this (px/ms) navigates however short it is */
+const SWIPE_VELOCITY = 0.5;
+/** Drag resistance when there is no image in that direction */
+const EDGE_RESISTANCE = 0.3;
+const SETTLE_MS = 300;
+
+function distance(a: Point, b: Point): number {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
+
+function touchPoint(touch: React.Touch): Point {
+  return { x: touch.clientX, y: touch.clientY };
+}
+
+function midpoint(touches: React.TouchList): Point {
+  return {
+    x: (touches[0].clientX + touches[1].clientX) / 2,
+    y: (touches[0].clientY + touches[1].clientY) / 2,
+  };
+}
+
+/**
+ * Pan that keeps the image point under `anchor` (at `from` zoom) under
+ * `target` once zoomed to `scale`. `center` is the untransformed center.
+ */
+function zoomedPan(
+  center: Point,
+  from: { scale: number; pan: Point },
+  anchor: Point,
+  target: Point,
+  scale: number
+): Point {
+  const imagePoint = {
+    x: (anchor.x - center.x - from.pan.x) / from.scale,
+    y: (anchor.y - center.y - from.pan.y) / from.scale,
+  };
+  return {
+    x: target.x - center.x - imagePoint.x * scale,
+    y: target.y - center.y - imagePoint.y * scale,
+  };
+}
+
+/**
+ * Touch gestures for the slideshow: swipe between images with momentum and
+ * a preview of the neighbor, pinch and double-tap to zoom, drag to pan
+ * while zoomed. Uses touch events only, so mouse and keyboard are untouched.
+ */
+export function useSlideshowGestures({
+  imageKey,
+  onPrev,
+  onNext,
+}: UseSlideshowGesturesOptions): UseSlideshowGesturesResult {
+  const areaRef = useRef<HTMLDivElement>(null);
+  const zoomRef = useRef<HTMLDivElement>(null);
+  const gesture = useRef<Gesture>(null);
+  const lastTap = useRef<{ time: number; point: Point } | null>(null);
+  const navigateTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const [offset, setOffset] = useState(0);
+  const [scale, setScale] = useState(1);
+  const [pan, setPan] = useState<Point>({ x: 0, y: 0 });
+  const [transitionMs, setTransitionMs] = useState(0);
+
+  // A new image starts centered and unzoomed, without animating there
+  const [shownKey, setShownKey] = useState(imageKey);
+  if (shownKey !== imageKey) {
+    setShownKey(imageKey);
+    setOffset(0);
+    setScale(1);
+    setPan({ x: 0, y: 0 });
+    setTransitionMs(0);
+  }
+
+  useEffect(() => {
+    return () => {
+      if (navigateTimer.current) clearTimeout(navigateTimer.current);
+    };
+  }, []);
+
+  /** Keep the zoomed image covering its box */
+  const clampPan = useCallback((p: Point, s: number): Point => {
+    const el = zoomRef.current;
+    if (!el) return p;
+    const maxX = ((s - 1) * el.offsetWidth) / 2;
+    const maxY = ((s - 1) * el.offsetHeight) / 2;
+    return {
+      x: Math.max(-maxX, Math.min(maxX, p.x)),
+      y: Math.max(-maxY, Math.min(maxY, p.y)),
+    };
+  }, []);
+
+  /** Center of the zoomed element without swipe, pan or zoom */
+  const zoomCenter = useCallback((): Point | null => {
+    const el = zoomRef.current;
+    if (!el) return null;
+    const rect = el.getBoundingClientRect();
+    return {
+      x: rect.left + rect.width / 2 - offset - pan.x,
+      y: rect.top + rect.height / 2 - pan.y,
+    };
+  }, [offset, pan]);
+
+  const resetZoom = useCallback(() => {
+    setTransitionMs(SETTLE_MS);
+    setScale(1);
+    setPan({ x: 0, y: 0 });
+  }, []);
+
+  const handleDoubleTap = useCallback(
+    (point: Point) => {
+      const now = Date.now();
+      const previous = lastTap.current;
+      if (
+        !previous ||
+        now - previous.time > DOUBLE_TAP_MS ||
+        distance(point, previous.point) > DOUBLE_TAP_DISTANCE
+      ) {
+        lastTap.current = { time: now, point };
+        return;
+      }
+      lastTap.current = null;
+      const center = zoomCenter();
+      if (scale > 1 || !center) {
+        resetZoom();
+        return;
+      }
+      setTransitionMs(SETTLE_MS);
+      setScale(DOUBLE_TAP_SCALE);
+      setPan(
+        clampPan(
+          zoomedPan(center, { scale, pan }, point, point, DOUBLE_TAP_SCALE),
+          DOUBLE_TAP_SCALE
+        )
+      );
+    },
+    [scale, pan, resetZoom, zoomCenter, clampPan]
+  );
+
+  /** Finish a swipe: go to the neighbor or spring back */
+  const settleSwipe = useCallback(
+    (dx: number, velocity: number) => {
+      const width = areaRef.current?.offsetWidth ?? window.innerWidth;
+      const flicked = Math.abs(velocity) > SWIPE_VELOCITY;
+      const target =
+        dx < 0 && (dx < -width * SWIPE_DISTANCE || (flicked && velocity < 0)) && onNext
+          ? { navigate: onNext, to: -width }
+          : dx > 0 && (dx > width * SWIPE_DISTANCE || (flicked && velocity > 0)) && onPrev
+            ? { navigate: onPrev, to: width }
+            : null;
+
+      if (!target) {
+        setTransitionMs(SETTLE_MS);
+        setOffset(0);
+        return;
+      }
+
+      // Carry the finger's speed: a fast flick finishes sooner
+      const remaining = Math.abs(target.to - dx);
+      const duration = Math.round(
+        Math.min(SETTLE_MS, Math.max(120, remaining / Math.max(Math.abs(velocity), 1)))
+      );
+      setTransitionMs(duration);
+      setOffset(target.to);
+      navigator.vibrate?.(10);
+      // The strip stays on the neighbor's preview until its page arrives
+      navigateTimer.current = setTimeout(target.navigate, duration);
+    },
+    [onPrev, onNext]
+  );
+
+  const onTouchStart = useCallback(
+    (e: React.TouchEvent) => {
+      if (e.touches.length === 2) {
+        const center = zoomCenter();
+        if (!center) return;
+        gesture.current = {
+          kind: "pinch",
+          startDistance: distance(touchPoint(e.touches[0]), touchPoint(e.touches[1])),
+          startScale: scale,
+          startPan: pan,
+          anchor: midpoint(e.touches),
+          center,
+        };
+        // Let go of any swipe in progress
+        setTransitionMs(SETTLE_MS);
+        setOffset(0);
+        return;
+      }
+      if (e.touches.length !== 1) return;
+
+      const point = touchPoint(e.touches[0]);
+      setTransitionMs(0);
+      gesture.current =
+        scale > 1
+          ? { kind: "pan", last: point }
+          : {
+              kind: "swipe",
+              start: point,
+              lastX: point.x,
+              lastTime: e.timeStamp,
+              velocity: 0,
+              axis: null,
+            };
+    },
+    [scale, pan, zoomCenter]
+  );
+
+  const onTouchMove = useCallback(
+    (e: React.TouchEvent) => {
+      const current = gesture.current;
+      if (!current) return;
+
+      if (current.kind === "pinch" && e.touches.length === 2) {
+        const ratio =
+          distance(touchPoint(e.touches[0]), touchPoint(e.touches[1])) / current.startDistance;
+        const s = Math.min(MAX_SCALE, Math.max(1, current.startScale * ratio));
+        const from = { scale: current.startScale, pan: current.startPan };
+        setTransitionMs(0);
+        setScale(s);
+        setPan(clampPan(zoomedPan(current.center, from, current.anchor, midpoint(e.touches), s), s));
+        return;
+      }
+
+      if (e.touches.length !== 1) return;
+      const point = touchPoint(e.touches[0]);
+
+      if (current.kind === "pan") {
+        setPan((p) =>
+          clampPan({ x: p.x + point.x - current.last.x, y: p.y + point.y - current.last.y }, scale)
+        );
+        current.last = point;
+        return;
+      }
+
+      if (current.kind !== "swipe") return;
+      const dx = point.x - current.start.x;
+      const dy = point.y - current.start.y;
+      if (!current.axis) {
+        if (Math.hypot(dx, dy) < DRAG_THRESHOLD) return;
+        current.axis = Math.abs(dx) > Math.abs(dy) ? "x" : "y";
+      }
+      if (current.axis !== "x") return;
+
+      const dt = e.timeStamp - current.lastTime;
+      if (dt > 0) {
+        current.velocity = 0.8 * ((point.x - current.lastX) / dt) + 0.2 * current.velocity;
+      }
+      current.lastX = point.x;
+      current.lastTime = e.timeStamp;
+
+      const blocked = (dx > 0 && !onPrev) || (dx < 0 && !onNext);
+      setOffset(blocked ? dx * EDGE_RESISTANCE : dx);
+    },
+    [scale, clampPan, onPrev, onNext]
+  );
+
+  const onTouchEnd = useCallback(
+    (e: React.TouchEvent) => {
+      const current = gesture.current;
+      if (!current) return;
+
+      if (current.kind === "pinch") {
+        // Lifting one finger of a pinch continues as a pan
+        if (e.touches.length === 1) {
+          gesture.current = { kind: "pan", last: touchPoint(e.touches[0]) };
+        } else {
+          gesture.current = null;
+        }
+        if (scale < 1.05) resetZoom();
+        return;
+      }
+      if (e.touches.length > 0) return;
+      gesture.current = null;
+
+      const point = touchPoint(e.changedTouches[0]);
+      if (current.kind === "swipe") {
+        if (current.axis === "x") {
+          // Stale velocity if the finger stopped before lifting
+          const velocity = e.timeStamp - current.lastTime > 100 ? 0 : current.velocity;
+          settleSwipe(point.x - current.start.x, velocity);
+          return;
+        }
+        if (current.axis === null) handleDoubleTap(point);
+        return;
+      }
+      handleDoubleTap(point);
+    },
+    [scale, resetZoom, settleSwipe, handleDoubleTap]
+  );
+
+  const onTouchCancel = useCallback(() => {
+    gesture.current = null;
+    setTransitionMs(SETTLE_MS);
+    setOffset(0);
+  }, []);
+
+  return {
+    areaRef,
+    zoomRef,
+    handlers: { onTouchStart, onTouchMove, onTouchEnd, onTouchCancel },
+    offset,
+    scale,
+    pan,
+    transitionMs,
+  };
+}
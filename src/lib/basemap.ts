@@ -0,0 +1,106 @@
+import "server-only";
+import * as fs from "fs";
+import * as path from "path";
+import {
+  METERS_PER_MAP_UNIT,
+  projectLocation,
+  type BasemapArea,
+  type MapPoint,
+} from "./map";
+import type { ImageLocation } from "./types";
+
+/** [lng, lat], as in GeoJSON */
+type Position = [number, number];
+
+type AreaGeometry =
+  | { type: "Polygon"; coordinates: Position[][] }
+  | { type: "MultiPolygon"; coordinates: Position[][][] };
+
+interface ProjectedArea extends BasemapArea {
+  min: MapPoint;
+  max: MapPoint;
+}
+
+let cached: ProjectedArea[] | null = null;
+
+/** 0.1 unit is a couple of meters, plenty for outlines */
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+function toPathData(rings: MapPoint[][]): string {
+  return rings
+    .map(
+      (ring) =>
+        "M" + ring.map(({ x, y }) => `${round(x)} ${round(y)}`).join("L") + "Z"
+    )
+    .join("");
+}
+
+/**
+ * Neighborhood outlines from the bundled DataSF dataset (`pnpm
+ * fetch-geodata`), projected once per build. Empty, with a build-time
+ * warning, when it is missing.
+ */
+function loadAreas(): ProjectedArea[] {
+  if (cached) return cached;
+
+  const geojsonPath = path.join(process.cwd(), "src/data/geo/neighborhoods.geojson");
+  if (!fs.existsSync(geojsonPath)) {
+    console.warn(
+      `⚠ ${path.relative(process.cwd(), geojsonPath)} is missing, maps will have no basemap (run pnpm fetch-geodata)`
+    );
+    cached = [];
+    return cached;
+  }
+
+  const { features } = JSON.parse(fs.readFileSync(geojsonPath, "utf-8")) as {
+    features: Array<{ properties: { name: string }; geometry: AreaGeometry }>;
+  };
+
+  cached = features.map(({ properties, geometry }) => {
+    const polygons = geometry.type === "Polygon" ? [geometry.coordinates] : geometry.coordinates;
+    const rings = polygons.flat().map((ring) =>
+      ring.map(([lng, lat]) => projectLocation({ lat, lng }))
+    );
+    const min = { x: Infinity, y: Infinity };
+    const max = { x: -Infinity, y: -Infinity };
+    for (const { x, y } of rings.flat()) {
+      min.x = Math.min(min.x, x);
+      min.y = Math.min(min.y, y);
+      max.x = Math.max(max.x, x);
+      max.y = Math.max(max.y, y);
+    }
+    return {
+      name: properties.name,
+      d: toPathData(rings),
+      center: { x: (min.x + max.x) / 2, y: (min.y + max.y) / 2 },
+      min,
+      max,
+    };
+  });
+  return cached;
+}
+
+/**
+ * Basemap shapes for the whole city, or only those within `radiusMeters`
+ * of a location (for the slideshow mini-map)
+ */
+export function getBasemap(around?: {
+  location: ImageLocation;
+  radiusMeters: number;
+}): BasemapArea[] {
+  let areas = loadAreas();
+  if (around) {
+    const center = projectLocation(around.location);
+    const radius = around.radiusMeters / METERS_PER_MAP_UNIT;
+    areas = areas.filter(
+      ({ min, max }) =>
+        max.x >= center.x - radius &&
+        min.x <= center.x + radius &&
+        max.y >= center.y - radius &&
+        min.y <= center.y + radius
+    );
+  }
+  return areas.map(({ name, d, center }) => ({ name, d, center }));
+}
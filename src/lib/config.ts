@@ -1,3 +1,5 @@
+import type { GridLayout } from "./grid-layout";
+
 export const SITE_CONFIG = {
   name: "SF through ads",
   description:
@@ -8,5 +10,11 @@ export const SITE_CONFIG = {
   // UI settings
   gridBatchSize: 20,
   gridThumbnailSize: 400,
+  /** Default layout; visitors can switch, and their choice is remembered */
+  gridLayout: "square" as GridLayout,
+
+  // Kiosk slideshow (/slideshow), overridable with ?interval=
+  kioskIntervalSeconds: 10,
+  kioskCrossfadeMs: 1500,
 } as const;
 
@@ -0,0 +1,87 @@
+import { SITE_CONFIG } from "./config";
+import type { ImageEntry } from "./types";
+import { formatPlace } from "./utils";
+
+export interface FeedChannel {
+  title: string;
+  description: string;
+  /** Page the feed mirrors, e.g. `/tag/ai` (empty for the home page) */
+  path: string;
+  /** Path of the feed itself, e.g. `/tag/ai/feed.xml` */
+  feedPath: string;
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+function formatRssTitle(date: Date, timezone: string): string {
+  return (
+    "Taken on " +
+    date.toLocaleDateString("en-US", {
+      month: "short",
+      day: "numeric",
+      year: "numeric",
+      timeZone: timezone,
+    }) +
+    " at " +
+    date.toLocaleTimeString("en-US", {
+      hour: "numeric",
+      minute: "2-digit",
+      timeZone: timezone,
+    })
+  );
+}
+
+/**
+ * Render an RSS 2.0 feed of `images`, newest first
+ */
+export function buildRssFeed(channel: FeedChannel, images: ImageEntry[]): Response {
+  // Sort by id descending (newest images first)
+  const sortedImages = [...images].sort((a, b) => b.id - a.id);
+
+  const items = sortedImages
+    .map((img) => {
+      const neighborhood = img.place?.neighborhood;
+      const title =
+        formatRssTitle(new Date(img.taken_at), img.timezone) +
+        (neighborhood ? ` in ${neighborhood}` : "");
+      const placeLabel = formatPlace(img.place);
+      const description =
+        `<img src="${SITE_CONFIG.url}/images/${img.filename}" alt="${img.ai_generated_alt_text}" />` +
+        (img.description ? `<p>${escapeXml(img.description)}</p>` : "") +
+        (placeLabel ? `<p>${escapeXml(placeLabel)}</p>` : "");
+
+      return `
+    <item>
+      <title>${escapeXml(title)}</title>
+      <link>${SITE_CONFIG.url}/image/${img.id}</link>
+      <description><![CDATA[${description}]]></description>
+      <pubDate>${new Date(img.taken_at).toUTCString()}</pubDate>
+      <guid isPermaLink="true">${SITE_CONFIG.url}/image/${img.id}</guid>
+    </item>`;
+    })
+    .join("");
+
+  const rss = `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">
+  <channel>
+    <title>${escapeXml(channel.title)}</title>
+    <link>${SITE_CONFIG.url}${channel.path}</link>
+    <description>${escapeXml(channel.description)}</description>
+    <atom:link href="${SITE_CONFIG.url}${channel.feedPath}" rel="self" type="application/rss+xml"/>${items}
+  </channel>
+</rss>`;
+
+  return new Response(rss, {
+    headers: {
+      "Content-Type": "application/xml",
+      "Cache-Control": "public, max-age=3600",
+    },
+  });
+}
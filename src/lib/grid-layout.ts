@@ -0,0 +1,50 @@
+import { SITE_CONFIG } from "./config";
+import type { ImageEntry } from "./types";
+import type { VariantSet } from "./variants";
+
+/**
+ * How the gallery grid lays out images: `square` crops every image to its
+ * square thumbnail, `justified` fills rows with whole images at their
+ * original aspect ratio.
+ */
+export const GRID_LAYOUTS = ["square", "justified"] as const;
+
+export type GridLayout = (typeof GRID_LAYOUTS)[number];
+
+export function isGridLayout(value: unknown): value is GridLayout {
+  return (GRID_LAYOUTS as readonly unknown[]).includes(value);
+}
+
+/**
+ * Target row height of the justified layout on large screens, in pixels.
+ * Rows stretch up to about 1.5× this to fill the width.
+ */
+export const JUSTIFIED_ROW_HEIGHT = 260;
+
+const SQUARE_SIZES = `(max-width: 640px) 50vw, (max-width: 1024px) 33vw, ${SITE_CONFIG.gridThumbnailSize}px`;
+
+/**
+ * The file a grid cell shows: the square thumbnail, or the full image for
+ * the justified layout. Shared by the cards and the next-batch preload so
+ * they request the same variant.
+ */
+export function getGridImageSource(
+  image: ImageEntry,
+  layout: GridLayout
+): { filename: string; variants: VariantSet | null; kind: "full" | "thumbnail"; sizes: string } {
+  if (layout === "justified") {
+    const aspect = image.width / image.height;
+    return {
+      filename: image.filename,
+      variants: image.variants?.full ?? null,
+      kind: "full",
+      sizes: `${Math.ceil(aspect * JUSTIFIED_ROW_HEIGHT * 1.5)}px`,
+    };
+  }
+  return {
+    filename: image.thumbnail_filename,
+    variants: image.variants?.thumbnail ?? null,
+    kind: "thumbnail",
+    sizes: SQUARE_SIZES,
+  };
+}
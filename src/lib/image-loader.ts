@@ -0,0 +1,14 @@
+import type { ImageLoaderProps } from "next/image";
+
+/**
+ * next/image loader for the static export (`images.loaderFile`), where
+ * there is no optimizer to resize on request.
+ *
+ * Entries with variants never get here: ResponsiveImage passes its own
+ * loader that picks the closest generated width. Everything else is served
+ * as the pre-generated file it names, whatever the requested width, which
+ * is why `scripts/verify-export.ts` rejects entries without variants.
+ */
+export default function staticImageLoader({ src }: ImageLoaderProps): string {
+  return src;
+}
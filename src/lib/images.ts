@@ -1,15 +1,13 @@
 import "server-only";
 import * as fs from "fs";
 import * as path from "path";
-import YAML from "yaml";
+import { parseImagesYaml } from "./schema";
+import { TAG_VOCABULARY, type Tag } from "./tags";
 import type { ImageEntry } from "./types";
+import { slugify } from "./utils";
 
 export type { ImageEntry, ImageLocation } from "./types";
 
-interface ImagesYaml {
-  images: ImageEntry[];
-}
-
 function loadImagesYaml(): ImageEntry[] {
   const yamlPath = path.join(process.cwd(), "src/data/images.yaml");
 
@@ -18,9 +16,7 @@ function loadImagesYaml(): ImageEntry[] {
   }
 
   const content = fs.readFileSync(yamlPath, "utf-8");
-  const parsed = YAML.parse(content) as ImagesYaml;
-
-  return parsed?.images || [];
+  return parseImagesYaml(content, yamlPath).images;
 }
 
 /**
@@ -63,3 +59,46 @@ export function getAdjacentImages(
     next: images.slice(index + 1, index + 1 + depth),
   };
 }
+
+/**
+ * Get the images with a tag, newest first
+ */
+export function getImagesByTag(tag: Tag): ImageEntry[] {
+  return getAllImages().filter((img) => img.tags.includes(tag));
+}
+
+/**
+ * Tags used by at least one image, with their image counts, in
+ * vocabulary order
+ */
+export function getTagCounts(): Array<{ tag: Tag; count: number }> {
+  const images = loadImagesYaml();
+  return TAG_VOCABULARY.map((tag) => ({
+    tag,
+    count: images.filter((img) => img.tags.includes(tag)).length,
+  })).filter(({ count }) => count > 0);
+}
+
+/**
+ * Neighborhoods with at least one image, with their slugs and image
+ * counts, by name
+ */
+export function getNeighborhoods(): Array<{ slug: string; name: string; count: number }> {
+  const counts = new Map<string, number>();
+  for (const img of loadImagesYaml()) {
+    const name = img.place?.neighborhood;
+    if (name) counts.set(name, (counts.get(name) ?? 0) + 1);
+  }
+  return [...counts]
+    .map(([name, count]) => ({ slug: slugify(name), name, count }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Get the images taken in a neighborhood, newest first
+ */
+export function getImagesByNeighborhood(slug: string): ImageEntry[] {
+  return getAllImages().filter(
+    (img) => img.place?.neighborhood && slugify(img.place.neighborhood) === slug
+  );
+}
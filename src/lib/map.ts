@@ -0,0 +1,103 @@
+import type { ImageEntry, ImageLocation } from "./types";
+import type { VariantSet } from "./variants";
+
+/**
+ * Flat projection of San Francisco into SVG user units. The city is small
+ * enough for an equirectangular projection scaled at its mean latitude.
+ */
+export const MAP_BOUNDS = {
+  north: 37.835,
+  south: 37.703,
+  west: -122.53,
+  east: -122.35,
+};
+
+/** Width of the map in SVG units; the height follows from the bounds */
+export const MAP_WIDTH = 1000;
+
+const LNG_SCALE = Math.cos((((MAP_BOUNDS.north + MAP_BOUNDS.south) / 2) * Math.PI) / 180);
+const UNITS_PER_DEGREE = MAP_WIDTH / ((MAP_BOUNDS.east - MAP_BOUNDS.west) * LNG_SCALE);
+
+export const MAP_HEIGHT = Math.round((MAP_BOUNDS.north - MAP_BOUNDS.south) * UNITS_PER_DEGREE);
+
+/** Meters per SVG unit, to size things in the real world */
+export const METERS_PER_MAP_UNIT = 111_320 / UNITS_PER_DEGREE;
+
+export interface MapPoint {
+  x: number;
+  y: number;
+}
+
+export function projectLocation({ lat, lng }: ImageLocation): MapPoint {
+  return {
+    x: (lng - MAP_BOUNDS.west) * LNG_SCALE * UNITS_PER_DEGREE,
+    y: (MAP_BOUNDS.north - lat) * UNITS_PER_DEGREE,
+  };
+}
+
+/**
+ * A basemap shape, already projected: `d` is an SVG path
+ */
+export interface BasemapArea {
+  name: string;
+  d: string;
+  /** Where to put its label */
+  center: MapPoint;
+}
+
+export interface MapMarker {
+  id: number;
+  point: MapPoint;
+  /** Estimated from neighboring shots rather than read from GPS */
+  inferred: boolean;
+  thumbnail_filename: string;
+  thumbnail_variants: VariantSet | null;
+  alt: string;
+}
+
+export interface MarkerCluster {
+  /** Average position of the markers */
+  point: MapPoint;
+  markers: MapMarker[];
+}
+
+/**
+ * Group markers that fall in the same `cellSize` grid cell, so they can be
+ * drawn as one. Deterministic: the same markers always give the same
+ * clusters at a given cell size.
+ */
+export function clusterMarkers(markers: MapMarker[], cellSize: number): MarkerCluster[] {
+  const cells = new Map<string, MapMarker[]>();
+  for (const marker of markers) {
+    const key = `${Math.floor(marker.point.x / cellSize)}:${Math.floor(marker.point.y / cellSize)}`;
+    cells.set(key, [...(cells.get(key) ?? []), marker]);
+  }
+
+  return [...cells.values()].map((group) => ({
+    point: {
+      x: group.reduce((sum, m) => sum + m.point.x, 0) / group.length,
+      y: group.reduce((sum, m) => sum + m.point.y, 0) / group.length,
+    },
+    markers: group,
+  }));
+}
+
+/**
+ * Markers for the entries that have a published location
+ */
+export function toMapMarkers(images: ImageEntry[]): MapMarker[] {
+  return images.flatMap((img) =>
+    img.location
+      ? [
+          {
+            id: img.id,
+            point: projectLocation(img.location),
+            inferred: img.location_source === "inferred",
+            thumbnail_filename: img.thumbnail_filename,
+            thumbnail_variants: img.variants?.thumbnail ?? null,
+            alt: img.ai_generated_alt_text,
+          },
+        ]
+      : []
+  );
+}
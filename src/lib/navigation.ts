@@ -0,0 +1,159 @@
+import { search, type SearchIndex } from "./search";
+import { isTag, type Tag } from "./tags";
+import type { ImageEntry } from "./types";
+import { slugify } from "./utils";
+
+/**
+ * Slideshow navigation within the view an image was opened from. The view
+ * travels in the image URL (`/image/12?tag=ai`); image pages are static,
+ * so its neighbors are worked out in the browser from a build-time index
+ * (`/navigation-index.json`).
+ */
+
+export const NAVIGATION_INDEX_PATH = "/navigation-index.json";
+
+/** A filtered, ordered view of the gallery */
+export type NavigationContext =
+  | { kind: "tag"; tag: Tag }
+  | { kind: "neighborhood"; slug: string }
+  | { kind: "search"; query: string };
+
+/** What the slideshow needs of a neighbor: enough to preview and preload it */
+export type NeighborImage = Pick<
+  ImageEntry,
+  "id" | "filename" | "width" | "height" | "variants" | "placeholder"
+>;
+
+interface NavigationEntry extends NeighborImage {
+  tags: Tag[];
+  /** Slug of the neighborhood, as in /neighborhood/[slug] */
+  neighborhood: string | null;
+}
+
+export interface NavigationIndex {
+  /** Newest first, like every browse page */
+  images: NavigationEntry[];
+}
+
+export function buildNavigationIndex(images: ImageEntry[]): NavigationIndex {
+  return {
+    images: images.map((img) => ({
+      id: img.id,
+      filename: img.filename,
+      width: img.width,
+      height: img.height,
+      variants: img.variants,
+      placeholder: img.placeholder,
+      tags: img.tags,
+      neighborhood: img.place?.neighborhood ? slugify(img.place.neighborhood) : null,
+    })),
+  };
+}
+
+let indexPromise: Promise<NavigationIndex> | null = null;
+
+/**
+ * Fetch the index once per page load
+ */
+export function loadNavigationIndex(): Promise<NavigationIndex> {
+  indexPromise ??= fetch(NAVIGATION_INDEX_PATH).then((response) => {
+    if (!response.ok) throw new Error(`${NAVIGATION_INDEX_PATH} returned ${response.status}`);
+    return response.json();
+  });
+  indexPromise.catch(() => (indexPromise = null));
+  return indexPromise;
+}
+
+/**
+ * The view in an image URL's query string, if any
+ */
+export function parseNavigationContext(params: URLSearchParams): NavigationContext | null {
+  const tag = params.get("tag");
+  if (tag && isTag(tag)) return { kind: "tag", tag };
+
+  const slug = params.get("neighborhood");
+  if (slug) return { kind: "neighborhood", slug };
+
+  const query = params.get("q")?.trim();
+  if (query) return { kind: "search", query };
+
+  return null;
+}
+
+function toSearchParams(context: NavigationContext): URLSearchParams {
+  switch (context.kind) {
+    case "tag":
+      return new URLSearchParams({ tag: context.tag });
+    case "neighborhood":
+      return new URLSearchParams({ neighborhood: context.slug });
+    case "search":
+      return new URLSearchParams({ q: context.query });
+  }
+}
+
+/**
+ * Link to an image that keeps navigating within `context`
+ */
+export function getImageHref(id: number, context: NavigationContext | null): string {
+  return context ? `/image/${id}?${toSearchParams(context)}` : `/image/${id}`;
+}
+
+/**
+ * The page showing the whole view, to return to from the slideshow
+ */
+export function getContextHref(context: NavigationContext | null): string {
+  switch (context?.kind) {
+    case "tag":
+      return `/tag/${context.tag}`;
+    case "neighborhood":
+      return `/neighborhood/${context.slug}`;
+    case "search":
+      return `/?${toSearchParams(context)}`;
+    default:
+      return "/";
+  }
+}
+
+/**
+ * Ids in the view, in the order its page shows them. Searches need the
+ * search index.
+ */
+function getContextIds(
+  context: NavigationContext,
+  index: NavigationIndex,
+  searchIndex: SearchIndex | null
+): number[] | null {
+  switch (context.kind) {
+    case "tag":
+      return index.images.filter((img) => img.tags.includes(context.tag)).map((img) => img.id);
+    case "neighborhood":
+      return index.images.filter((img) => img.neighborhood === context.slug).map((img) => img.id);
+    case "search":
+      return searchIndex ? search(searchIndex, context.query) : null;
+  }
+}
+
+/**
+ * Neighbors of image `id` within the view, closest first. Null when the
+ * image is not part of it (or the search index is missing), in which case
+ * the slideshow falls back to the whole gallery.
+ */
+export function getContextNeighbors(
+  id: number,
+  context: NavigationContext,
+  index: NavigationIndex,
+  searchIndex: SearchIndex | null,
+  depth: number = 2
+): { prev: NeighborImage[]; next: NeighborImage[] } | null {
+  const ids = getContextIds(context, index, searchIndex);
+  const position = ids?.indexOf(id) ?? -1;
+  if (!ids || position === -1) return null;
+
+  const byId = new Map(index.images.map((img) => [img.id, img]));
+  const toImages = (slice: number[]) => slice.flatMap((neighborId) => byId.get(neighborId) ?? []);
+
+  return {
+    prev: toImages(ids.slice(Math.max(0, position - depth), position).reverse()),
+    next: toImages(ids.slice(position + 1, position + 1 + depth)),
+  };
+}
@@ -0,0 +1,64 @@
+import { slugify } from "./utils";
+
+/**
+ * The 41 DataSF Analysis Neighborhoods, the names the geocoder labels
+ * places with. Every one gets a browse page, empty or not, so the pages
+ * don't depend on what has been photographed. `pnpm fetch-geodata` fails
+ * if the dataset names one that is not listed here.
+ */
+export const NEIGHBORHOODS = [
+  "Bayview Hunters Point",
+  "Bernal Heights",
+  "Castro/Upper Market",
+  "Chinatown",
+  "Excelsior",
+  "Financial District/South Beach",
+  "Glen Park",
+  "Golden Gate Park",
+  "Haight Ashbury",
+  "Hayes Valley",
+  "Inner Richmond",
+  "Inner Sunset",
+  "Japantown",
+  "Lakeshore",
+  "Lincoln Park",
+  "Lone Mountain/USF",
+  "Marina",
+  "McLaren Park",
+  "Mission",
+  "Mission Bay",
+  "Nob Hill",
+  "Noe Valley",
+  "North Beach",
+  "Oceanview/Merced/Ingleside",
+  "Outer Mission",
+  "Outer Richmond",
+  "Pacific Heights",
+  "Portola",
+  "Potrero Hill",
+  "Presidio",
+  "Presidio Heights",
+  "Russian Hill",
+  "Seacliff",
+  "South of Market",
+  "Sunset/Parkside",
+  "Tenderloin",
+  "Treasure Island",
+  "Twin Peaks",
+  "Visitacion Valley",
+  "West of Twin Peaks",
+  "Western Addition",
+] as const;
+
+export type Neighborhood = (typeof NEIGHBORHOODS)[number];
+
+export function isNeighborhood(value: string): value is Neighborhood {
+  return (NEIGHBORHOODS as readonly string[]).includes(value);
+}
+
+/**
+ * The neighborhood a /neighborhood/[slug] URL names, if any
+ */
+export function findNeighborhoodBySlug(slug: string): Neighborhood | null {
+  return NEIGHBORHOODS.find((name) => slugify(name) === slug) ?? null;
+}
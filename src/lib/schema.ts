@@ -0,0 +1,176 @@
+import YAML from "yaml";
+import { z } from "zod";
+import { AD_CATEGORIES, AD_MEDIA, TAG_VOCABULARY } from "./tags";
+import { VARIANT_FORMATS } from "./variants";
+
+/**
+ * Schema of src/data/images.yaml, shared by the site and the import
+ * scripts. Types in ./types are inferred from it.
+ */
+
+export const imageLocationSchema = z.object({
+  lat: z.number().min(-90).max(90),
+  lng: z.number().min(-180).max(180),
+});
+
+/**
+ * How the published location was derived from the GPS fix:
+ * `exact`, `fuzzed` (snapped to the privacy grid), `snapped` (moved to a
+ * private zone's public point) or `hidden` (inside a private zone)
+ */
+export const locationPrivacySchema = z.enum(["exact", "fuzzed", "snapped", "hidden"]);
+
+/**
+ * Where the capture time was read from. `file_mtime` is the last resort
+ * and is usually wrong: fix it in src/data/overrides.yaml.
+ */
+export const takenAtSourceSchema = z.enum(["exif", "xmp", "takeout", "override", "file_mtime"]);
+
+/**
+ * Where the GPS fix was read from. `inferred` locations are estimated from
+ * shots taken just before and after (`import-images --infer-location`).
+ */
+export const locationSourceSchema = z.enum(["exif", "xmp", "takeout", "override", "inferred"]);
+
+/**
+ * Labels of the published location, from the bundled DataSF datasets.
+ * Both are null outside San Francisco or when the location is hidden.
+ */
+export const placeSchema = z.object({
+  /** Analysis Neighborhood, e.g. `Mission` */
+  neighborhood: z.string().nullable(),
+  /** Nearest street or intersection, e.g. `Valencia St & 18th St` */
+  street: z.string().nullable(),
+});
+
+export const altTextProvenanceSchema = z.object({
+  status: z.enum(["generated", "fallback", "human"]),
+  model: z.string().nullable(),
+  prompt_version: z.number().int().positive(),
+});
+
+export const thumbnailCropSchema = z.object({
+  left: z.number().int().nonnegative(),
+  top: z.number().int().nonnegative(),
+  size: z.number().int().positive(),
+  strategy: z.enum(["saliency", "entropy", "vision", "center", "manual"]),
+});
+
+export const variantSetSchema = z.object({
+  widths: z.array(z.number().int().positive()).min(1),
+  formats: z.array(z.enum(VARIANT_FORMATS)).min(1),
+});
+
+export const imageVariantsSchema = z.object({
+  full: variantSetSchema,
+  thumbnail: variantSetSchema,
+});
+
+const dataUrlSchema = z.string().startsWith("data:image/");
+
+export const imagePlaceholderSchema = z.object({
+  /** Dominant color, e.g. `#8a7f70` */
+  color: z.string().regex(/^#[0-9a-f]{6}$/),
+  /** Blurred preview of the full image */
+  full: dataUrlSchema,
+  /** Blurred preview of the thumbnail */
+  thumbnail: dataUrlSchema,
+});
+
+export const adMetadataSchema = z.object({
+  brand: z.string().nullable(),
+  /** Verbatim text of the ad, one line per visual line */
+  copy: z.string(),
+  category: z.enum(AD_CATEGORIES),
+  medium: z.enum(AD_MEDIA).nullable(),
+  model: z.string(),
+  prompt_version: z.number().int().positive(),
+});
+
+export const imageEntrySchema = z.object({
+  id: z.number().int().positive(),
+  filename: z.string().min(1),
+  thumbnail_filename: z.string().min(1),
+  original_path: z.string().min(1),
+  original_hash: z.string().regex(/^sha256:[0-9a-f]{64}$/, "expected sha256:<64 hex chars>"),
+  perceptual_hash: z.string().regex(/^dhash:[0-9a-f]{16}$/, "expected dhash:<16 hex chars>"),
+  taken_at: z.string().datetime(),
+  taken_at_source: takenAtSourceSchema,
+  imported_at: z.string().datetime(),
+  width: z.number().int().positive(),
+  height: z.number().int().positive(),
+  thumbnail_crop: thumbnailCropSchema,
+  /** Null until generated (import, or `pnpm generate-variants`) */
+  variants: imageVariantsSchema.nullable(),
+  /** Null until generated (import, or `pnpm generate-placeholders`) */
+  placeholder: imagePlaceholderSchema.nullable(),
+  location: imageLocationSchema.nullable(),
+  location_source: locationSourceSchema,
+  location_privacy: locationPrivacySchema,
+  /** Null until geocoded (import, or `pnpm geocode`) */
+  place: placeSchema.nullable(),
+  timezone: z.string().min(1),
+  ai_generated_alt_text: z.string(),
+  alt_text_provenance: altTextProvenanceSchema,
+  /** Null until extracted (import, or `pnpm extract-ad-metadata`) */
+  ad: adMetadataSchema.nullable(),
+  description: z.string(),
+  /** Extracted tags plus any added by hand */
+  tags: z.array(z.enum(TAG_VOCABULARY)),
+  /** The tags extraction produced, replaced on every re-extraction */
+  extracted_tags: z.array(z.enum(TAG_VOCABULARY)),
+});
+
+export const imagesYamlSchema = z.object({
+  images: z.array(imageEntrySchema),
+});
+
+export class ManifestValidationError extends Error {
+  constructor(
+    readonly source: string,
+    readonly problems: string[]
+  ) {
+    super(`Invalid ${source}:\n${problems.map((p) => `  - ${p}`).join("\n")}`);
+    this.name = "ManifestValidationError";
+  }
+}
+
+/**
+ * Describe where a zod issue is, using the entry id rather than its index
+ * so it can be found in the file: `entry 12, field location.lat`
+ */
+function describeIssuePath(issuePath: (string | number)[], raw: unknown): string {
+  const [root, index, ...field] = issuePath;
+  if (root !== "images" || typeof index !== "number") {
+    return issuePath.length > 0 ? `field ${issuePath.join(".")}` : "document";
+  }
+
+  const entry = (raw as { images: unknown[] }).images[index] as { id?: unknown } | null;
+  const id = typeof entry?.id === "number" ? `entry ${entry.id}` : `entry #${index + 1} (no valid id)`;
+  return field.length > 0 ? `${id}, field ${field.join(".")}` : id;
+}
+
+/**
+ * Parse and validate the manifest. An empty file is an empty manifest.
+ *
+ * @throws ManifestValidationError listing every problem found
+ */
+export function parseImagesYaml(content: string, source = "images.yaml") {
+  let raw: unknown;
+  try {
+    raw = YAML.parse(content) ?? { images: [] };
+  } catch (error) {
+    throw new ManifestValidationError(source, [`not valid YAML: ${error}`]);
+  }
+
+  const result = imagesYamlSchema.safeParse(raw);
+  if (!result.success) {
+    throw new ManifestValidationError(
+      source,
+      result.error.issues.map(
+        (issue) => `${describeIssuePath(issue.path, raw)}: ${issue.message}`
+      )
+    );
+  }
+  return result.data;
+}
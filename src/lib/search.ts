@@ -0,0 +1,153 @@
+import { TAG_LABELS } from "./tags";
+import type { ImageEntry } from "./types";
+
+/**
+ * Client-side search. The index is built from the manifest at build time
+ * (`/search-index.json`) and queried in the browser, so it works on the
+ * static export too.
+ */
+
+export const SEARCH_INDEX_PATH = "/search-index.json";
+
+const SEARCH_FIELDS = ["brand", "tags", "description", "alt"] as const;
+
+type SearchField = (typeof SEARCH_FIELDS)[number];
+
+/** A brand hit says more than a word somewhere in the alt text */
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  brand: 3,
+  tags: 2,
+  description: 1.5,
+  alt: 1,
+};
+
+const STOPWORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "by", "for", "from", "in", "is", "it", "its",
+  "of", "on", "or", "the", "this", "to", "with",
+]);
+
+export interface SearchDocument {
+  id: number;
+  /** Distinct terms per field */
+  terms: Record<SearchField, string[]>;
+}
+
+export interface SearchIndex {
+  documents: SearchDocument[];
+}
+
+let indexPromise: Promise<SearchIndex> | null = null;
+
+/**
+ * Fetch the index once per page load, the first time it is needed
+ */
+export function loadSearchIndex(): Promise<SearchIndex> {
+  indexPromise ??= fetch(SEARCH_INDEX_PATH).then((response) => {
+    if (!response.ok) throw new Error(`${SEARCH_INDEX_PATH} returned ${response.status}`);
+    return response.json();
+  });
+  indexPromise.catch(() => (indexPromise = null));
+  return indexPromise;
+}
+
+/**
+ * Lowercased, accent-free words, without stopwords
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((word) => word.length > 1 && !STOPWORDS.has(word));
+}
+
+function distinctTerms(...texts: string[]): string[] {
+  return [...new Set(texts.flatMap(tokenize))];
+}
+
+export function buildSearchIndex(images: ImageEntry[]): SearchIndex {
+  return {
+    documents: images.map((img) => ({
+      id: img.id,
+      terms: {
+        brand: distinctTerms(img.ad?.brand ?? ""),
+        tags: distinctTerms(...img.tags.flatMap((tag) => [tag, TAG_LABELS[tag]])),
+        description: distinctTerms(img.description),
+        alt: distinctTerms(img.ai_generated_alt_text),
+      },
+    })),
+  };
+}
+
+/**
+ * Edit distance (with transpositions), giving up once it exceeds `max`
+ */
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let prevPrev: number[] = [];
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      row[j] = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        row[j] = Math.min(row[j], prevPrev[j - 2] + 1);
+      }
+      rowMin = Math.min(rowMin, row[j]);
+    }
+    if (rowMin > max) return max + 1;
+    prevPrev = prev;
+    prev = row;
+  }
+  return prev[b.length];
+}
+
+/**
+ * How well a query word matches an indexed term: exact, prefix (the word
+ * being typed) or within a typo or two, depending on its length
+ */
+function matchTerm(word: string, term: string): number {
+  if (term === word) return 1;
+  if (term.startsWith(word)) return 0.8;
+  const maxEdits = word.length >= 8 ? 2 : word.length >= 4 ? 1 : 0;
+  if (maxEdits === 0) return 0;
+  // Compare with the start of longer terms too, for typos in a prefix
+  const candidates = term.length > word.length ? [term, term.slice(0, word.length)] : [term];
+  return candidates.some((candidate) => editDistance(word, candidate, maxEdits) <= maxEdits)
+    ? 0.5
+    : 0;
+}
+
+/**
+ * Ids of the documents matching every word of `query`, best first
+ */
+export function search(index: SearchIndex, query: string): number[] {
+  const words = tokenize(query);
+  if (words.length === 0) return [];
+
+  const results: Array<{ id: number; score: number }> = [];
+  for (const doc of index.documents) {
+    let score = 0;
+    for (const word of words) {
+      let best = 0;
+      for (const field of SEARCH_FIELDS) {
+        for (const term of doc.terms[field]) {
+          best = Math.max(best, matchTerm(word, term) * FIELD_WEIGHTS[field]);
+        }
+      }
+      if (best === 0) {
+        score = 0;
+        break;
+      }
+      score += best;
+    }
+    if (score > 0) results.push({ id: doc.id, score });
+  }
+
+  // Newest first among equally good matches
+  return results.sort((a, b) => b.score - a.score || b.id - a.id).map(({ id }) => id);
+}
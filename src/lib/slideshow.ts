@@ -0,0 +1,35 @@
+import "server-only";
+import { MINI_MAP_RADIUS_METERS } from "@/components/MiniMap";
+import { getBasemap } from "./basemap";
+import { getAdjacentImages, getImageById } from "./images";
+import type { BasemapArea } from "./map";
+import type { ImageEntry } from "./types";
+
+export interface SlideshowData {
+  image: ImageEntry;
+  prevImages: ImageEntry[];
+  nextImages: ImageEntry[];
+  miniMapAreas: BasemapArea[];
+}
+
+/**
+ * Everything the slideshow needs for the `id` route param, shared by the
+ * permalink page and the modal over the grid. Null for an unknown id.
+ */
+export function getSlideshowData(id: string): SlideshowData | null {
+  const imageId = parseInt(id, 10);
+  const image = isNaN(imageId) ? null : getImageById(imageId);
+  if (!image) return null;
+
+  const { prev, next } = getAdjacentImages(imageId);
+
+  return {
+    image,
+    prevImages: prev,
+    nextImages: next,
+    // Only the shapes around the image, not the whole city
+    miniMapAreas: image.location
+      ? getBasemap({ location: image.location, radiusMeters: MINI_MAP_RADIUS_METERS })
+      : [],
+  };
+}
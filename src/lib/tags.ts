@@ -0,0 +1,81 @@
+/**
+ * Controlled vocabulary for ad metadata and tags. The importer may only
+ * produce these values, and the manifest schema rejects anything else.
+ */
+
+export const AD_CATEGORIES = [
+  "ai",
+  "fintech",
+  "security",
+  "developer-tools",
+  "enterprise-software",
+  "health",
+  "insurance",
+  "transit",
+  "public-service",
+  "consumer",
+  "food-drink",
+  "entertainment",
+  "recruiting",
+  "other",
+] as const;
+
+export const AD_MEDIA = [
+  "billboard",
+  "bus-shelter",
+  "wall",
+  "kiosk",
+  "storefront",
+  "vehicle",
+  "poster",
+] as const;
+
+export const AD_THEMES = [
+  "qr-code",
+  "multilingual",
+  "humor",
+  "hiring",
+  "anti-ai",
+  "local-reference",
+] as const;
+
+export const TAG_VOCABULARY = [...AD_CATEGORIES, ...AD_MEDIA, ...AD_THEMES] as const;
+
+export type AdCategory = (typeof AD_CATEGORIES)[number];
+export type AdMedium = (typeof AD_MEDIA)[number];
+export type AdTheme = (typeof AD_THEMES)[number];
+export type Tag = (typeof TAG_VOCABULARY)[number];
+
+export function isTag(value: string): value is Tag {
+  return (TAG_VOCABULARY as readonly string[]).includes(value);
+}
+
+export const TAG_LABELS: Record<Tag, string> = {
+  ai: "AI",
+  fintech: "Fintech",
+  security: "Security",
+  "developer-tools": "Developer tools",
+  "enterprise-software": "Enterprise software",
+  health: "Health",
+  insurance: "Insurance",
+  transit: "Transit",
+  "public-service": "Public service",
+  consumer: "Consumer",
+  "food-drink": "Food & drink",
+  entertainment: "Entertainment",
+  recruiting: "Recruiting",
+  other: "Other",
+  billboard: "Billboard",
+  "bus-shelter": "Bus shelter",
+  wall: "Wall",
+  kiosk: "Kiosk",
+  storefront: "Storefront",
+  vehicle: "Vehicle",
+  poster: "Poster",
+  "qr-code": "QR code",
+  multilingual: "Multilingual",
+  humor: "Humor",
+  hiring: "Hiring",
+  "anti-ai": "Anti-AI",
+  "local-reference": "Local reference",
+};
@@ -1,21 +1,44 @@
-export interface ImageLocation {
-  lat: number;
-  lng: number;
-}
-
-export interface ImageEntry {
-  id: number;
-  filename: string;
-  thumbnail_filename: string;
-  original_path: string;
-  original_hash: string;
-  taken_at: string;
-  imported_at: string;
-  width: number;
-  height: number;
-  location: ImageLocation;
-  timezone: string;
-  ai_generated_alt_text: string;
-  description: string;
-  tags: string[];
-}
+import type { z } from "zod";
+import type {
+  adMetadataSchema,
+  altTextProvenanceSchema,
+  imageEntrySchema,
+  imageVariantsSchema,
+  imageLocationSchema,
+  imagePlaceholderSchema,
+  imagesYamlSchema,
+  locationPrivacySchema,
+  locationSourceSchema,
+  placeSchema,
+  takenAtSourceSchema,
+  thumbnailCropSchema,
+} from "./schema";
+
+export type ImageLocation = z.infer<typeof imageLocationSchema>;
+
+export type LocationPrivacy = z.infer<typeof locationPrivacySchema>;
+
+export type Place = z.infer<typeof placeSchema>;
+
+export type TakenAtSource = z.infer<typeof takenAtSourceSchema>;
+
+export type LocationSource = z.infer<typeof locationSourceSchema>;
+
+export type AltTextProvenance = z.infer<typeof altTextProvenanceSchema>;
+
+/**
+ * Square region of the full image used for the thumbnail, in pixels
+ */
+export type ThumbnailCrop = z.infer<typeof thumbnailCropSchema>;
+
+export type ThumbnailCropStrategy = ThumbnailCrop["strategy"];
+
+export type ImageVariants = z.infer<typeof imageVariantsSchema>;
+
+export type ImagePlaceholder = z.infer<typeof imagePlaceholderSchema>;
+
+export type AdMetadata = z.infer<typeof adMetadataSchema>;
+
+export type ImageEntry = z.infer<typeof imageEntrySchema>;
+
+export type ImagesYaml = z.infer<typeof imagesYamlSchema>;
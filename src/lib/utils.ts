@@ -1,13 +1,19 @@
+import type { ImageProps } from "next/image";
+import type { ImagePlaceholder, Place } from "./types";
+
 /**
  * Format date and location for film-style display
  * Format: 2026 01 03 14:32 37.77°N 122.41°W
  * 
  * Time is displayed in the timezone of the photo location.
+ * Coordinates are left out when the location is hidden, and prefixed
+ * with `~` when they were inferred from neighboring shots.
  */
 export function formatFilmDate(
   dateStr: string,
-  location: { lat: number; lng: number },
-  timezone: string
+  location: { lat: number; lng: number } | null,
+  timezone: string,
+  locationInferred = false
 ): string {
   const date = new Date(dateStr);
 
@@ -34,11 +40,66 @@ export function formatFilmDate(
 
   let result = `${year} ${month} ${day} ${hours}:${minutes}`;
 
+  if (!location) return result;
+
   const latDir = location.lat >= 0 ? "N" : "S";
   const lngDir = location.lng >= 0 ? "E" : "W";
   const lat = Math.abs(location.lat).toFixed(2);
   const lng = Math.abs(location.lng).toFixed(2);
-  result += ` ${lat}°${latDir} ${lng}°${lngDir}`;
+  result += ` ${locationInferred ? "~" : ""}${lat}°${latDir} ${lng}°${lngDir}`;
 
   return result;
 }
+
+/**
+ * Full date and time in a timezone: `2026-01-10 18:10 PST`.
+ * Built from numeric parts so server and browser render the same string.
+ */
+export function formatDateTime(dateStr: string, timezone: string): string {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+    timeZone: timezone,
+    timeZoneName: "short",
+  }).formatToParts(new Date(dateStr));
+  const getPart = (type: Intl.DateTimeFormatPartTypes) =>
+    parts.find((p) => p.type === type)?.value || "";
+
+  return `${getPart("year")}-${getPart("month")}-${getPart("day")} ${getPart("hour")}:${getPart("minute")} ${getPart("timeZoneName")}`;
+}
+
+/**
+ * `placeholder="blur"` props for an entry's stored preview, when it has one
+ */
+export function getBlurProps(
+  placeholder: ImagePlaceholder | null,
+  kind: "full" | "thumbnail"
+): Pick<ImageProps, "placeholder" | "blurDataURL"> {
+  return placeholder ? { placeholder: "blur", blurDataURL: placeholder[kind] } : {};
+}
+
+/**
+ * Human-readable place: `Valencia St & 18th St, Mission`.
+ * Null when the entry has not been geocoded or is outside San Francisco.
+ */
+export function formatPlace(place: Place | null): string | null {
+  const parts = [place?.street, place?.neighborhood].filter(Boolean);
+  return parts.length > 0 ? parts.join(", ") : null;
+}
+
+/**
+ * URL segment for a name: `Financial District/South Beach` →
+ * `financial-district-south-beach`
+ */
+export function slugify(name: string): string {
+  return name
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+}
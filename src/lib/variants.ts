@@ -0,0 +1,60 @@
+/**
+ * Pre-generated responsive versions of the full image and the thumbnail,
+ * shared by the importer (which writes them) and the site (which serves
+ * them). A variant of `00012.jpg` at 640px in WebP is `00012-640.webp`.
+ */
+
+export const VARIANT_FORMATS = ["avif", "webp", "jpeg"] as const;
+
+export type VariantFormat = (typeof VARIANT_FORMATS)[number];
+
+/** Widths generated for the slideshow (up to 1024 CSS px at 2x) */
+export const FULL_VARIANT_WIDTHS = [640, 1080, 1600, 2048];
+
+/** Widths generated for the grid (up to 400 CSS px at 2x) */
+export const THUMBNAIL_VARIANT_WIDTHS = [200, 400, 800];
+
+const EXTENSIONS: Record<VariantFormat, string> = {
+  avif: "avif",
+  webp: "webp",
+  jpeg: "jpg",
+};
+
+export interface VariantSet {
+  widths: number[];
+  formats: VariantFormat[];
+}
+
+/**
+ * File name of one variant, next to the image it was made from
+ */
+export function getVariantFilename(filename: string, width: number, format: VariantFormat): string {
+  const base = filename.replace(/\.[^.]+$/, "");
+  return `${base}-${width}.${EXTENSIONS[format]}`;
+}
+
+/**
+ * Every file of a variant set
+ */
+export function getVariantFilenames(filename: string, set: VariantSet): string[] {
+  return set.formats.flatMap((format) =>
+    set.widths.map((width) => getVariantFilename(filename, width, format))
+  );
+}
+
+/**
+ * Widths worth generating for a source `sourceWidth` pixels wide: never
+ * upscale, and always produce at least one
+ */
+export function planVariantWidths(sourceWidth: number, candidates: number[]): number[] {
+  const widths = candidates.filter((width) => width <= sourceWidth);
+  return widths.length > 0 ? widths : [sourceWidth];
+}
+
+/**
+ * Smallest generated width that covers `requested`, or the largest one
+ */
+export function pickVariantWidth(widths: number[], requested: number): number {
+  const sorted = [...widths].sort((a, b) => a - b);
+  return sorted.find((width) => width >= requested) ?? sorted[sorted.length - 1];
+}